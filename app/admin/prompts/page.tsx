@@ -0,0 +1,327 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Eye, History, Loader2, RotateCcw, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { cn } from "@/lib/utils"
+import type { TemplatePreviewRequest, TemplateRollbackRequest, TemplateSaveRequest } from "@/lib/contracts"
+import { getMessages, interpolate, isLocale, LOCALES, type Locale } from "@/lib/i18n"
+import type { TemplateDetail, TemplateSummary } from "@/lib/templates/types"
+
+// Same key as the chat page, so the admin page opens in the language the chat was last used in
+const LANGUAGE_STORAGE = "dual-ai-chat-language-v1"
+
+async function apiRequest<T = any>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+  return data
+}
+
+function formatDate(timestamp: number, dateLocale: string) {
+  return new Date(timestamp).toLocaleString(dateLocale)
+}
+
+export default function PromptTemplatesPage() {
+  const [uiLocale, setUiLocale] = useState<Locale>("vi")
+  const t = getMessages(uiLocale)
+  const [locale, setLocale] = useState<Locale>("vi")
+  const [templates, setTemplates] = useState<TemplateSummary[]>([])
+  const [selected, setSelected] = useState<string | null>(null)
+  const [detail, setDetail] = useState<TemplateDetail | null>(null)
+  const [draft, setDraft] = useState("")
+  const [note, setNote] = useState("")
+  const [sample, setSample] = useState<Record<string, string>>({})
+  const [variables, setVariables] = useState<string[]>([])
+  const [preview, setPreview] = useState<{ output: string; missing: string[] } | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState("")
+
+  // Links from the chat trace open a template directly: /admin/prompts?name=plainTextSystem&locale=en
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(LANGUAGE_STORAGE) ?? "{}")
+      if (isLocale(saved.locale)) {
+        setUiLocale(saved.locale)
+        setLocale(saved.locale)
+      }
+    } catch {}
+    const params = new URLSearchParams(window.location.search)
+    const requestedLocale = params.get("locale")
+    if (isLocale(requestedLocale)) setLocale(requestedLocale)
+    if (params.get("name")) setSelected(params.get("name"))
+  }, [])
+
+  useEffect(() => {
+    apiRequest<{ templates: TemplateSummary[] }>("/api/templates")
+      .then((data) => setTemplates(data.templates))
+      .catch((error) => setStatus(interpolate(t.admin.loadError, { error: error.message })))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  useEffect(() => {
+    if (!selected) return
+    apiRequest<{ template: TemplateDetail }>(`/api/templates/${encodeURIComponent(selected)}?locale=${locale}`)
+      .then(({ template }) => showTemplate(template))
+      .catch((error) => setStatus(interpolate(t.admin.loadError, { error: error.message })))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selected, locale])
+
+  const visible = useMemo(() => templates.filter((template) => template.locale === locale), [templates, locale])
+
+  function showTemplate(template: TemplateDetail) {
+    setDetail(template)
+    setDraft(template.text)
+    setVariables(template.variables)
+    setPreview(null)
+    setNote("")
+  }
+
+  // The list shows the current version of each template; refresh the entry that just changed
+  function updateSummary(template: TemplateDetail) {
+    const { text: _text, versions: _versions, ...summary } = template
+    setTemplates((prev) =>
+      prev.map((entry) => (entry.name === summary.name && entry.locale === summary.locale ? summary : entry)),
+    )
+  }
+
+  async function handlePreview() {
+    setBusy(true)
+    try {
+      const body: TemplatePreviewRequest = { text: draft, vars: sample }
+      const data = await apiRequest<{ output: string; variables: string[]; missing: string[] }>(
+        "/api/templates/preview",
+        { method: "POST", body: JSON.stringify(body) },
+      )
+      setVariables(data.variables)
+      setPreview({ output: data.output, missing: data.missing })
+    } catch (error) {
+      setStatus(interpolate(t.admin.saveError, { error: error instanceof Error ? error.message : String(error) }))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleSave() {
+    if (!detail) return
+    setBusy(true)
+    try {
+      const body: TemplateSaveRequest = { locale, text: draft, note: note.trim() || undefined }
+      const { template } = await apiRequest<{ template: TemplateDetail }>(
+        `/api/templates/${encodeURIComponent(detail.name)}`,
+        { method: "POST", body: JSON.stringify(body) },
+      )
+      showTemplate(template)
+      updateSummary(template)
+      setStatus(interpolate(t.admin.saved, { version: template.version }))
+    } catch (error) {
+      setStatus(interpolate(t.admin.saveError, { error: error instanceof Error ? error.message : String(error) }))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleRollback(version: number) {
+    if (!detail || !confirm(interpolate(t.admin.rollbackConfirm, { version }))) return
+    setBusy(true)
+    try {
+      const body: TemplateRollbackRequest = { locale, version }
+      const { template } = await apiRequest<{ template: TemplateDetail }>(
+        `/api/templates/${encodeURIComponent(detail.name)}/rollback`,
+        { method: "POST", body: JSON.stringify(body) },
+      )
+      showTemplate(template)
+      updateSummary(template)
+      setStatus(interpolate(t.admin.saved, { version: template.version }))
+    } catch (error) {
+      setStatus(interpolate(t.admin.saveError, { error: error instanceof Error ? error.message : String(error) }))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const dirty = !!detail && draft !== detail.text
+
+  return (
+    <div className="min-h-screen w-full bg-white text-foreground">
+      <header className="sticky top-0 z-20 flex h-14 items-center gap-3 border-b bg-white/90 px-3 backdrop-blur md:px-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            <span className="hidden sm:inline">{t.admin.backToChat}</span>
+          </Link>
+        </Button>
+        <h1 className="text-sm font-semibold">{t.admin.title}</h1>
+        <div className="ml-auto flex items-center gap-1">
+          {LOCALES.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={locale === option ? "default" : "outline"}
+              onClick={() => setLocale(option)}
+            >
+              {getMessages(option).languageName}
+            </Button>
+          ))}
+        </div>
+      </header>
+
+      <div className="mx-auto grid max-w-6xl grid-cols-1 gap-4 p-3 md:grid-cols-[260px_1fr] md:p-6">
+        <ScrollArea className="h-[calc(100vh-7rem)] rounded-md border">
+          <div className="space-y-1 p-2">
+            {visible.map((template) => (
+              <button
+                key={`${template.locale}-${template.name}`}
+                onClick={() => setSelected(template.name)}
+                className={cn(
+                  "flex w-full items-center justify-between gap-2 rounded-md px-3 py-2 text-left text-sm hover:bg-emerald-50",
+                  selected === template.name && "bg-emerald-100/70 hover:bg-emerald-100",
+                )}
+              >
+                <span className="truncate font-mono text-xs">{template.name}</span>
+                <span
+                  className={cn(
+                    "shrink-0 rounded px-1.5 py-0.5 text-[10px]",
+                    template.builtIn ? "bg-muted text-muted-foreground" : "bg-emerald-100 text-emerald-700",
+                  )}
+                >
+                  {template.builtIn ? t.admin.builtIn : `v${template.version}`}
+                </span>
+              </button>
+            ))}
+          </div>
+        </ScrollArea>
+
+        {!detail ? (
+          <div className="rounded-lg border bg-muted/30 p-8 text-center text-sm text-muted-foreground">
+            {status || t.admin.selectTemplate}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Card className="gap-3 py-4">
+              <CardHeader className="px-4">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <span className="font-mono">{detail.name}</span>
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {detail.builtIn ? t.admin.builtIn : `v${detail.version}`}
+                  </span>
+                  {dirty && <span className="text-xs font-normal text-orange-600">{t.admin.unsaved}</span>}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 px-4">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={14}
+                  spellCheck={false}
+                  className="w-full resize-y rounded-md border bg-transparent p-3 font-mono text-xs leading-relaxed focus:outline-none focus:ring-2 focus:ring-emerald-600/30"
+                />
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  <Input
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder={t.admin.notePlaceholder}
+                    maxLength={200}
+                  />
+                  <div className="flex shrink-0 gap-2">
+                    <Button variant="outline" onClick={handlePreview} disabled={busy}>
+                      <Eye className="mr-2 h-4 w-4" />
+                      {t.admin.preview}
+                    </Button>
+                    <Button onClick={handleSave} disabled={busy || !dirty || !draft.trim()}>
+                      {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                      {t.admin.save}
+                    </Button>
+                  </div>
+                </div>
+                {status && <p className="text-xs text-muted-foreground">{status}</p>}
+              </CardContent>
+            </Card>
+
+            <Card className="gap-3 py-4">
+              <CardHeader className="px-4">
+                <CardTitle className="text-sm">{t.admin.sampleInput}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 px-4">
+                {variables.length === 0 && <p className="text-xs text-muted-foreground">{t.admin.noVariables}</p>}
+                {variables.map((name) => (
+                  <label key={name} className="flex flex-col gap-1 text-xs sm:flex-row sm:items-start sm:gap-3">
+                    <span className="w-32 shrink-0 pt-2 font-mono text-muted-foreground">{`{${name}}`}</span>
+                    <textarea
+                      value={sample[name] ?? ""}
+                      onChange={(e) => setSample((prev) => ({ ...prev, [name]: e.target.value }))}
+                      rows={2}
+                      className="w-full resize-y rounded-md border bg-transparent p-2 text-xs focus:outline-none"
+                    />
+                  </label>
+                ))}
+                {preview && (
+                  <div className="space-y-1 pt-2">
+                    {preview.missing.length > 0 && (
+                      <p className="text-xs text-orange-600">
+                        {interpolate(t.admin.missingVariables, { names: preview.missing.join(", ") })}
+                      </p>
+                    )}
+                    <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+                      {preview.output}
+                    </pre>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="gap-3 py-4">
+              <CardHeader className="px-4">
+                <CardTitle className="flex items-center gap-2 text-sm">
+                  <History className="h-4 w-4" />
+                  {t.admin.versions}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-4">
+                <ul className="divide-y text-sm">
+                  {detail.versions.map((version) => (
+                    <li key={version.version} className="flex flex-wrap items-center gap-2 py-2">
+                      <span className="font-mono text-xs">v{version.version}</span>
+                      {version.version === detail.version && (
+                        <span className="rounded bg-emerald-100 px-1.5 py-0.5 text-[10px] text-emerald-700">
+                          {t.admin.current}
+                        </span>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {version.version === 0 ? t.admin.builtInVersion : formatDate(version.createdAt, t.dateLocale)}
+                        {version.restoredFrom !== undefined &&
+                          ` · ${interpolate(t.admin.restoredFrom, { version: version.restoredFrom })}`}
+                        {version.note && ` · ${version.note}`}
+                      </span>
+                      <span className="ml-auto flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => setDraft(version.text)}>
+                          {t.admin.open}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRollback(version.version)}
+                          disabled={busy || version.version === detail.version}
+                        >
+                          <RotateCcw className="mr-1 h-3.5 w-3.5" />
+                          {t.admin.rollback}
+                        </Button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
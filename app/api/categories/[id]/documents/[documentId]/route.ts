@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { categoryCollection, deleteDocument } from "@/lib/retrieval"
+
+type Params = { params: Promise<{ id: string; documentId: string }> }
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    const { id, documentId } = await params
+    if (!deleteDocument(categoryCollection(id), documentId)) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 })
+    }
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("Category documents API error:", error)
+    return NextResponse.json({ error: "Failed to delete document" }, { status: 500 })
+  }
+}
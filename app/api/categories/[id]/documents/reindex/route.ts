@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { documentReindexRequestSchema, invalidRequestError } from "@/lib/contracts"
+import { categoryCollection, listDocuments, reindexDocument } from "@/lib/retrieval"
+
+type Params = { params: Promise<{ id: string }> }
+
+// Extracts and chunks the given documents (all of them without `ids`) again from their stored source. Documents
+// without one are returned as `failed`.
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    const parsed = documentReindexRequestSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) return NextResponse.json(invalidRequestError(parsed.error), { status: 400 })
+    const collection = categoryCollection(id)
+    const ids = parsed.data.ids ?? listDocuments(collection).map((document) => document.id)
+    const failed: string[] = []
+    for (const documentId of ids) {
+      if (!(await reindexDocument(collection, documentId))) failed.push(documentId)
+    }
+    return NextResponse.json({ documents: listDocuments(collection), failed })
+  } catch (error) {
+    console.error("Category documents API error:", error)
+    return NextResponse.json({ error: "Failed to re-index documents" }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { documentUploadRequestSchema, invalidRequestError } from "@/lib/contracts"
+import { loadAttachments } from "@/lib/files"
+import { listCategories } from "@/lib/history"
+import { categoryCollection, indexFiles, isExtractable, listDocuments } from "@/lib/retrieval"
+
+type Params = { params: Promise<{ id: string }> }
+
+function categoryExists(id: string) {
+  return listCategories().some((category) => category.id === id)
+}
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    if (!categoryExists(id)) return NextResponse.json({ error: "Category not found" }, { status: 404 })
+    return NextResponse.json({ documents: listDocuments(categoryCollection(id)) })
+  } catch (error) {
+    console.error("Category documents API error:", error)
+    return NextResponse.json({ error: "Failed to load documents" }, { status: 500 })
+  }
+}
+
+// Indexes the files into the category's knowledge base. Files already in it are left as they are; formats the
+// server can't read, and files the knowledge base has no room for, are returned as `skipped`.
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    if (!categoryExists(id)) return NextResponse.json({ error: "Category not found" }, { status: 404 })
+    const parsed = documentUploadRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) return NextResponse.json(invalidRequestError(parsed.error), { status: 400 })
+    const stored = await loadAttachments(parsed.data.attachments)
+    if (stored.missing.length > 0) {
+      return NextResponse.json({ error: `Unknown attachments: ${stored.missing.join(", ")}` }, { status: 400 })
+    }
+    const files = [...parsed.data.files, ...stored.files]
+    const { indexed, rejected } = await indexFiles(categoryCollection(id), files)
+    const skipped = files.filter((file) => !isExtractable(file) || rejected.includes(file)).map((file) => file.name)
+    return NextResponse.json({ indexed, skipped, documents: listDocuments(categoryCollection(id)) }, { status: 201 })
+  } catch (error) {
+    console.error("Category documents API error:", error)
+    return NextResponse.json({ error: "Failed to index documents" }, { status: 500 })
+  }
+}
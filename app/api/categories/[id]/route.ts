@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { categoryUpdateRequestSchema, invalidRequestError } from "@/lib/contracts"
+import { deleteCategory, listSessions, updateCategory } from "@/lib/history"
+import { categoryCollection, deleteCollection, sessionCollection } from "@/lib/retrieval"
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    const parsed = categoryUpdateRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) return NextResponse.json(invalidRequestError(parsed.error), { status: 400 })
+    const { name, icon } = parsed.data
+    const category = updateCategory(id, {
+      ...(name?.trim() ? { name: name.trim() } : {}),
+      ...(icon ? { icon } : {}),
+    })
+    if (!category) return NextResponse.json({ error: "Category not found" }, { status: 404 })
+    return NextResponse.json({ category })
+  } catch (error) {
+    console.error("Categories API error:", error)
+    return NextResponse.json({ error: "Failed to update category" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    // the category's sessions go with it, and so do their documents and the category's knowledge base
+    const sessions = listSessions(id)
+    if (!deleteCategory(id)) return NextResponse.json({ error: "Category not found" }, { status: 404 })
+    sessions.forEach((session) => deleteCollection(sessionCollection(session.id)))
+    deleteCollection(categoryCollection(id))
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("Categories API error:", error)
+    return NextResponse.json({ error: "Failed to delete category" }, { status: 500 })
+  }
+}
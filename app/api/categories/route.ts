@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { categoryCreateRequestSchema, invalidRequestError } from "@/lib/contracts"
+import { createCategory, listCategories } from "@/lib/history"
+
+export async function GET() {
+  try {
+    return NextResponse.json({ categories: listCategories() })
+  } catch (error) {
+    console.error("Categories API error:", error)
+    return NextResponse.json({ error: "Failed to load categories" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = categoryCreateRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) return NextResponse.json(invalidRequestError(parsed.error), { status: 400 })
+    const { id } = parsed.data
+    if (listCategories().some((category) => category.id === id)) {
+      return NextResponse.json({ error: `Category already exists: ${id}` }, { status: 409 })
+    }
+    return NextResponse.json({ category: createCategory(parsed.data) }, { status: 201 })
+  } catch (error) {
+    console.error("Categories API error:", error)
+    return NextResponse.json({ error: "Failed to create category" }, { status: 500 })
+  }
+}
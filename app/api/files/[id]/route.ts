@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { deleteAttachment, readAttachment } from "@/lib/files"
+
+type Params = { params: Promise<{ id: string }> }
+
+// Types the browser may show in place. The uploader picks the stored type, so anything else (HTML, SVG, ...) could
+// run script on this origin and is only offered as a download.
+const INLINE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp", "application/pdf"])
+
+// The stored file itself
+export async function GET(_request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    const stored = await readAttachment(id)
+    if (!stored) return NextResponse.json({ error: "File not found" }, { status: 404 })
+    const type = stored.attachment.type.split(";")[0].trim().toLowerCase()
+    const inline = INLINE_TYPES.has(type)
+    return new NextResponse(new Uint8Array(stored.data), {
+      headers: {
+        "Content-Type": inline ? type : "application/octet-stream",
+        "Content-Disposition": `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(stored.attachment.name)}`,
+        "X-Content-Type-Options": "nosniff",
+      },
+    })
+  } catch (error) {
+    console.error("Files API error:", error)
+    return NextResponse.json({ error: "Failed to load file" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    if (!(await deleteAttachment(id))) return NextResponse.json({ error: "File not found" }, { status: 404 })
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("Files API error:", error)
+    return NextResponse.json({ error: "Failed to delete file" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { MAX_FILE_SIZE } from "@/lib/file-utils"
+import { saveAttachment } from "@/lib/files"
+
+// Multipart upload with one or more `file` fields. Each file is stored and its text extracted; chat requests then
+// send the returned ids as `attachments` instead of the data.
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData().catch(() => null)
+    const files = (form?.getAll("file") ?? []).filter((value): value is File => value instanceof File)
+    if (files.length === 0) return NextResponse.json({ error: "At least one file is required" }, { status: 400 })
+    const tooLarge = files.filter((file) => file.size > MAX_FILE_SIZE)
+    if (tooLarge.length > 0) {
+      return NextResponse.json(
+        { error: `File too large: ${tooLarge.map((file) => file.name).join(", ")}` },
+        { status: 413 },
+      )
+    }
+    const attachments = []
+    for (const file of files) attachments.push(await saveAttachment(file))
+    return NextResponse.json({ attachments }, { status: 201 })
+  } catch (error) {
+    console.error("Files API error:", error)
+    return NextResponse.json({ error: "Failed to store files" }, { status: 500 })
+  }
+}
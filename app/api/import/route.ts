@@ -0,0 +1,15 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { invalidRequestError, legacyImportRequestSchema } from "@/lib/contracts"
+import { importLegacyData } from "@/lib/history"
+
+// One-time import of the sessions and categories older versions kept in localStorage
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = legacyImportRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) return NextResponse.json(invalidRequestError(parsed.error), { status: 400 })
+    return NextResponse.json({ imported: importLegacyData(parsed.data) })
+  } catch (error) {
+    console.error("Import API error:", error)
+    return NextResponse.json({ error: "Failed to import data" }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { invalidRequestError, sessionUpdateRequestSchema } from "@/lib/contracts"
+import { deleteSession, getSession, updateSession } from "@/lib/history"
+import { deleteCollection, sessionCollection } from "@/lib/retrieval"
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    const session = getSession(id)
+    if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 })
+    return NextResponse.json({ session })
+  } catch (error) {
+    console.error("Sessions API error:", error)
+    return NextResponse.json({ error: "Failed to load session" }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    const parsed = sessionUpdateRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) return NextResponse.json(invalidRequestError(parsed.error), { status: 400 })
+    const { title, categoryId } = parsed.data
+    const session = updateSession(id, {
+      ...(title?.trim() ? { title: title.trim() } : {}),
+      ...(categoryId ? { categoryId } : {}),
+    })
+    if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 })
+    return NextResponse.json({ session })
+  } catch (error) {
+    console.error("Sessions API error:", error)
+    return NextResponse.json({ error: "Failed to update session" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    if (!deleteSession(id)) return NextResponse.json({ error: "Session not found" }, { status: 404 })
+    deleteCollection(sessionCollection(id))
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error("Sessions API error:", error)
+    return NextResponse.json({ error: "Failed to delete session" }, { status: 500 })
+  }
+}
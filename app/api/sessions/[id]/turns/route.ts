@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { invalidRequestError, turnSaveRequestSchema } from "@/lib/contracts"
+import { addTurn, clearTurns } from "@/lib/history"
+import { deleteCollection, sessionCollection } from "@/lib/retrieval"
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    const parsed = turnSaveRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) return NextResponse.json(invalidRequestError(parsed.error), { status: 400 })
+    const session = addTurn(id, parsed.data.turn)
+    if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 })
+    return NextResponse.json({ session }, { status: 201 })
+  } catch (error) {
+    console.error("Turns API error:", error)
+    return NextResponse.json({ error: "Failed to save turn" }, { status: 500 })
+  }
+}
+
+// Clears the conversation, and the documents attached in it, but keeps the session
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params
+    const session = clearTurns(id)
+    if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 })
+    deleteCollection(sessionCollection(id))
+    return NextResponse.json({ session })
+  } catch (error) {
+    console.error("Turns API error:", error)
+    return NextResponse.json({ error: "Failed to clear session" }, { status: 500 })
+  }
+}
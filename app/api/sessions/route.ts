@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { invalidRequestError, sessionCreateRequestSchema } from "@/lib/contracts"
+import { createSession, getSession, listSessions } from "@/lib/history"
+
+// Summaries only; turns are loaded per session from /api/sessions/[id]
+export async function GET(request: NextRequest) {
+  try {
+    const categoryId = request.nextUrl.searchParams.get("categoryId") ?? undefined
+    return NextResponse.json({ sessions: listSessions(categoryId) })
+  } catch (error) {
+    console.error("Sessions API error:", error)
+    return NextResponse.json({ error: "Failed to load sessions" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = sessionCreateRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) return NextResponse.json(invalidRequestError(parsed.error), { status: 400 })
+    if (getSession(parsed.data.id)) {
+      return NextResponse.json({ error: `Session already exists: ${parsed.data.id}` }, { status: 409 })
+    }
+    const session = createSession(parsed.data)
+    return NextResponse.json({ session }, { status: 201 })
+  } catch (error) {
+    console.error("Sessions API error:", error)
+    return NextResponse.json({ error: "Failed to create session" }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { invalidRequestError, templateRollbackRequestSchema } from "@/lib/contracts"
+import { rollbackTemplate } from "@/lib/templates"
+
+type Params = { params: Promise<{ name: string }> }
+
+// Restores an earlier version (0 is the built-in text) by saving a copy of it as the newest version
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { name } = await params
+    const parsed = templateRollbackRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) return NextResponse.json(invalidRequestError(parsed.error), { status: 400 })
+    const { locale, version, note } = parsed.data
+    const template = rollbackTemplate(name, locale, version, note)
+    if (!template) {
+      return NextResponse.json({ error: `Unknown template or version: ${name} v${version}` }, { status: 404 })
+    }
+    return NextResponse.json({ template }, { status: 201 })
+  } catch (error) {
+    console.error("Templates API error:", error)
+    return NextResponse.json({ error: "Failed to roll back template" }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { invalidRequestError, templateSaveRequestSchema } from "@/lib/contracts"
+import { DEFAULT_LOCALE, isLocale } from "@/lib/i18n"
+import { getTemplate, saveTemplate } from "@/lib/templates"
+
+type Params = { params: Promise<{ name: string }> }
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { name } = await params
+    const requested = request.nextUrl.searchParams.get("locale")
+    const template = getTemplate(name, isLocale(requested) ? requested : DEFAULT_LOCALE)
+    if (!template) return NextResponse.json({ error: `Unknown template: ${name}` }, { status: 404 })
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error("Templates API error:", error)
+    return NextResponse.json({ error: "Failed to load template" }, { status: 500 })
+  }
+}
+
+// Saves the text as a new version, which requests use from then on
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const { name } = await params
+    const parsed = templateSaveRequestSchema.safeParse(await request.json().catch(() => undefined))
+    if (!parsed.success) return NextResponse.json(invalidRequestError(parsed.error), { status: 400 })
+    const { locale, text, note } = parsed.data
+    const template = saveTemplate(name, locale, text, note)
+    if (!template) return NextResponse.json({ error: `Unknown template: ${name}` }, { status: 404 })
+    return NextResponse.json({ template }, { status: 201 })
+  } catch (error) {
+    console.error("Templates API error:", error)
+    return NextResponse.json({ error: "Failed to save template" }, { status: 500 })
+  }
+}
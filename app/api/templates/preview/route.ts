@@ -0,0 +1,14 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { invalidRequestError, templatePreviewRequestSchema } from "@/lib/contracts"
+import { templateVariables } from "@/lib/templates"
+import { renderPrompt } from "@/lib/workflows/format"
+
+// Renders a draft with sample variables exactly like a workflow would; nothing is saved
+export async function POST(request: NextRequest) {
+  const parsed = templatePreviewRequestSchema.safeParse(await request.json().catch(() => undefined))
+  if (!parsed.success) return NextResponse.json(invalidRequestError(parsed.error), { status: 400 })
+  const { text, vars } = parsed.data
+  const variables = templateVariables(text)
+  const missing = variables.filter((name) => !(name in vars))
+  return NextResponse.json({ output: renderPrompt([text], vars), variables, missing })
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { listTemplates } from "@/lib/templates"
+
+// Every named prompt in every locale, with the version requests currently use
+export async function GET() {
+  try {
+    return NextResponse.json({ templates: listTemplates() })
+  } catch (error) {
+    console.error("Templates API error:", error)
+    return NextResponse.json({ error: "Failed to load templates" }, { status: 500 })
+  }
+}
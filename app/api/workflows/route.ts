@@ -0,0 +1,15 @@
+import { type NextRequest, NextResponse } from "next/server"
+import type { WorkflowOption } from "@/lib/contracts"
+import { DEFAULT_LOCALE, isLocale } from "@/lib/i18n"
+import { listWorkflows, localize } from "@/lib/workflows"
+
+// Workflows the chat UI can offer, labelled in the `locale` query parameter; steps stay on the server
+export async function GET(request: NextRequest) {
+  const requested = request.nextUrl.searchParams.get("locale")
+  const locale = isLocale(requested) ? requested : DEFAULT_LOCALE
+  const workflows: WorkflowOption[] = listWorkflows()
+    .filter((workflow) => !workflow.hidden)
+    .map((workflow) => localize(workflow, locale))
+    .map(({ id, label, description, icon, color }) => ({ id, label, description, icon, color }))
+  return NextResponse.json({ workflows })
+}
@@ -2,7 +2,7 @@
 
 import type React from "react"
 import { Lightbulb } from 'lucide-react';
-import { useEffect, useMemo, useRef, useState } from "react"
+import { createContext, useContext, useEffect, useMemo, useRef, useState } from "react"
 import { v4 as uuidv4 } from "uuid"
 import {
   MessageSquare,
@@ -11,6 +11,7 @@ import {
   Trash2,
   Search,
   Bot,
+  BarChart3,
   User,
   SplitSquareVertical,
   History,
@@ -33,8 +34,32 @@ import {
   ChevronDown,
   ChevronRight,
   Zap,
+  Loader2,
+  Check,
+  Languages,
+  Wrench,
+  RefreshCw,
+  Upload,
 } from "lucide-react"
 import { Document, Packer, Paragraph, TextRun, HeadingLevel } from "docx"
+import ReactMarkdown, { type Components } from "react-markdown"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import remarkGfm from "remark-gfm"
+import type { Parents, PhrasingContent, Root, RootContent, Text } from "mdast"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -47,13 +72,42 @@ import {
   DropdownMenuLabel,
   DropdownMenuCheckboxItem,
 } from "@/components/ui/dropdown-menu"
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card"
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
 import { cn } from "@/lib/utils"
+import { readEventStream } from "@/lib/sse"
+import {
+  apiErrorSchema,
+  directChatEventSchema,
+  directChatResponseSchema,
+  type AnswerLanguage,
+  type ChartSpecPayload,
+  type ConversationSummaryPayload,
+  type DirectChatRequest,
+  type OutputFormat,
+  type DirectChatResponse,
+  type SearchReferencePayload,
+  type StepTracePayload,
+  type TemplateRefPayload,
+  type UsageSummaryPayload,
+  workflowOptionSchema,
+  type WorkflowOption,
+  type WorkflowProgressPayload as WorkflowProgress,
+} from "@/lib/contracts"
+import type { StoredAttachment } from "@/lib/files/types"
+import { getMessages, interpolate, isLocale, LOCALES, type Locale, type Messages } from "@/lib/i18n"
 import { isImageFile, SUPPORTED_FILE_TYPES, MAX_FILE_SIZE, type FileContent, processFile } from "@/lib/file-utils" // Declare the processFile variable
 
 type Role = "user" | "assistant"
 type Model = "chatgpt" | "gemini"
-type Workflow = "single" | "chatgpt-to-gemini" | "perplexity-to-gemini" | "perplexity-chatgpt-gemini"
+// Workflow ids come from /api/workflows; built-ins plus anything in WORKFLOWS_CONFIG
+type Workflow = string
+
+// Stored turns may hold traces from older versions, so kinds and timings are looser than the API contract
+type WorkflowStepTrace = Omit<StepTracePayload, "kind" | "durationMs"> & { kind: string; durationMs?: number }
+
+// Functions the model called during an answer step, from the step's `details.toolCalls`
+type ToolCallTrace = { name: string; args: Record<string, unknown>; output?: string; error?: string; durationMs: number }
 
 type ChatMessage = {
   id: string
@@ -69,11 +123,20 @@ type ChatTurn = {
   chatgpt: ChatMessage
   gemini: ChatMessage
   workflow?: Workflow
-  workflowSteps?: {
-    step1: any
-    step2: any
-  }
+  workflowSteps?: WorkflowStepTrace[]
   searchResults?: any
+  // model that actually answered, which differs from the selected one after a server-side fallback
+  answeredBy?: { providerId: string; model: string }
+  // tokens, estimated cost and time spent on this answer across all workflow steps
+  usage?: UsageSummaryPayload
+  // turns saved before the format option existed are plain text
+  format?: OutputFormat
+  // prompt template versions the answer was generated with
+  templates?: TemplateRefPayload[]
+  // the question as the rewrite step turned it into a prompt; sent back so it isn't rewritten on every request
+  rewrittenPrompt?: string
+  // charts the answer came with, drawn below its text
+  charts?: ChartSpecPayload[]
 }
 
 type ChatSession = {
@@ -82,6 +145,11 @@ type ChatSession = {
   createdAt: number
   categoryId: string
   turns: ChatTurn[]
+  // totals over the session's turns, summed by the server so they are known before the turns are loaded
+  totalTokens?: number
+  costUsd?: number
+  // server-side summary of the first turns, which no longer go to the model verbatim
+  summary?: ConversationSummaryPayload
 }
 
 type Category = {
@@ -90,8 +158,20 @@ type Category = {
   icon: "book" | "flask" | "folder" | "more"
 }
 
+// A file in a category's knowledge base, as listed by /api/categories/<id>/documents
+type CategoryDocument = {
+  id: string
+  name: string
+  mimeType: string
+  chunks: number
+  createdAt: number
+}
+
 const SESSIONS_STORAGE = "dual-ai-chat-sessions-v2"
 const CATEGORIES_STORAGE = "dual-ai-chat-categories-v1"
+const IMPORT_FLAG_STORAGE = "dual-ai-chat-imported-v1"
+const ACTIVE_CATEGORY_STORAGE = "dual-ai-chat-active-category-v1"
+const LANGUAGE_STORAGE = "dual-ai-chat-language-v1"
 
 // Layout constants
 const HEADER_H = 56
@@ -123,11 +203,11 @@ function slugify(s: string) {
     .replace(/(^-|-$)+/g, "")
 }
 
-function makeMarkdown(modelLabel: string, text: string) {
-  const when = new Date().toLocaleString("vi-VN")
+function makeMarkdown(modelLabel: string, text: string, t: Messages) {
+  const when = new Date().toLocaleString(t.dateLocale)
   return `# ${modelLabel}
 
-> Tạo lúc: ${when}
+> ${t.ui.createdAt}: ${when}
 
 ${text}
 `
@@ -164,6 +244,19 @@ function formatBytes(bytes: number) {
   return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`
 }
 
+function formatCost(usd: number) {
+  if (usd === 0) return "$0"
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`
+}
+
+function formatTokens(tokens: number) {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k tokens` : `${tokens} tokens`
+}
+
+function formatDuration(ms: number) {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`
+}
+
 // --- API call function ---
 async function callDirectAPI(
   model: Model,
@@ -172,7 +265,13 @@ async function callDirectAPI(
   files: FileContent[] = [],
   workflow: Workflow = "single",
   deepSearch = false,
-) {
+  format: OutputFormat = "text",
+  locale: Locale = "vi",
+  language?: AnswerLanguage,
+  sessionId?: string,
+  onDelta?: (text: string) => void,
+  onProgress?: (progress: WorkflowProgress) => void,
+): Promise<DirectChatResponse> {
   console.log("[v0] callDirectAPI called with:", {
     model,
     messagesCount: messages.length,
@@ -184,10 +283,13 @@ async function callDirectAPI(
   // and don't add file content to text message (ChatGPT should only see text question)
   let nativeFiles: any[] = []
   let processedContent: FileContent[] = []
+  // files already uploaded to /api/files are sent by id
+  const attachments = files.flatMap((fc) => (fc.attachmentId ? [fc.attachmentId] : []))
+  const notUploaded = files.filter((fc) => !fc.attachmentId)
 
   if (workflow === "chatgpt-to-gemini") {
     // For ChatGPT to Gemini workflow: send all files as native files
-    nativeFiles = files
+    nativeFiles = notUploaded
       .map(
         (fc) =>
           fc.fileData || {
@@ -199,13 +301,13 @@ async function callDirectAPI(
       .filter(Boolean)
     processedContent = [] // Don't process files locally for this workflow
   } else {
-    // For single workflow: use original logic
-    const locallyProcessedFiles = files.filter((fc) => fc.type === "text" || fc.type === "table")
-    nativeFiles = files
-      .filter((fc) => fc.type === "pdf-native" || fc.type === "office-native")
+    // For single workflow: images go inline, every other file to the server, which reads documents it can
+    // parse into the session's index and passes the rest on to Gemini
+    nativeFiles = notUploaded
+      .filter((fc) => fc.type !== "image" && fc.type !== "error")
       .map((fc) => fc.fileData)
       .filter(Boolean)
-    processedContent = files.filter((fc) => fc.type !== "pdf-native" && fc.type !== "office-native")
+    processedContent = files.filter((fc) => fc.type === "image")
   }
 
   console.log("[v0] File processing breakdown:", {
@@ -253,7 +355,7 @@ async function callDirectAPI(
     })
   }
 
-  const requestBody = {
+  const requestBody: DirectChatRequest = {
     messages: [
       ...messages.slice(0, -1),
       {
@@ -264,8 +366,13 @@ async function callDirectAPI(
     model: MODEL_MAPPING[model],
     stream,
     files: nativeFiles,
+    attachments,
     workflow,
     deepSearch,
+    format,
+    locale,
+    language,
+    sessionId,
   }
 
   console.log("[v0] Sending request to API:", {
@@ -286,17 +393,40 @@ async function callDirectAPI(
     })
 
     if (!response.ok) {
-      const errorData = await response.json()
-      console.error("[v0] API error response:", errorData)
-      throw new Error(errorData.error || `HTTP ${response.status}`)
+      const errorData = apiErrorSchema.safeParse(await response.json().catch(() => undefined))
+      console.error("[v0] API error response:", errorData.data ?? response.status)
+      throw new Error(errorData.data?.error || `HTTP ${response.status}`)
     }
 
-    const data = await response.json()
+    let data: DirectChatResponse | null = null
+    if (stream && response.body) {
+      // SSE: "delta" events carry answer tokens, "progress" the step being run, "done" carries the same payload as a JSON response
+      for await (const raw of readEventStream(response.body)) {
+        const parsed = directChatEventSchema.safeParse(raw)
+        if (!parsed.success) {
+          console.warn("[v0] Ignoring unexpected stream event:", raw)
+          continue
+        }
+        const event = parsed.data
+        if (event.type === "delta") {
+          onDelta?.(event.text)
+        } else if (event.type === "progress") {
+          onProgress?.(event)
+        } else if (event.type === "error") {
+          console.error("[v0] API stream error:", event)
+          throw new Error(event.error || `HTTP ${event.status}`)
+        } else if (event.type === "done") {
+          data = event.response
+        }
+      }
+      if (!data) throw new Error("Stream ended without a response")
+    } else {
+      data = directChatResponseSchema.parse(await response.json())
+    }
     console.log("[v0] API response received:", {
       workflow: data.workflow,
-      hasStep1: !!data.step1,
-      hasStep2: !!data.step2,
-      responsePreview: data.choices?.[0]?.message?.content?.substring(0, 100) + "...",
+      steps: data.steps.length,
+      responsePreview: data.choices[0]?.message.content.substring(0, 100) + "...",
     })
 
     return data
@@ -306,54 +436,137 @@ async function callDirectAPI(
   }
 }
 
-// --- Categories (folders) state ---
-function useCategories() {
-  const [categories, setCategories] = useState<Category[]>([])
-  const [activeCategoryId, setActiveCategoryId] = useState<string>("")
+// --- Persistence (API routes backed by SQLite) ---
+async function apiRequest<T = any>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+  return data
+}
+
+// Stores files on the server, which extracts their text; chat requests then refer to them by id
+async function uploadAttachments(files: File[]): Promise<StoredAttachment[]> {
+  const form = new FormData()
+  files.forEach((file) => form.append("file", file))
+  const response = await fetch("/api/files", { method: "POST", body: form })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+  return data.attachments
+}
+
+// What the attachment chip shows for an uploaded file
+function attachmentContent(attachment: StoredAttachment): FileContent {
+  return {
+    type: attachment.kind,
+    content: attachment.error ?? "",
+    metadata: attachment.metadata,
+    attachmentId: attachment.id,
+  }
+}
+
+// Local state is updated right away; a failed save is only logged so the chat keeps working
+function persist(request: Promise<unknown>, action: string) {
+  request.catch((error) => console.error(`Failed to ${action}:`, error))
+}
+
+// Older versions kept everything in localStorage. Copy it to the server once, then only the API is used.
+function useLegacyImport() {
+  const [done, setDone] = useState(false)
 
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(CATEGORIES_STORAGE)
-      if (raw) {
-        const parsed = JSON.parse(raw) as {
-          categories: Category[]
-          activeId: string
+    async function importLocalData() {
+      try {
+        if (localStorage.getItem(IMPORT_FLAG_STORAGE)) return
+        const rawSessions = localStorage.getItem(SESSIONS_STORAGE)
+        const rawCategories = localStorage.getItem(CATEGORIES_STORAGE)
+        if (rawSessions || rawCategories) {
+          const parsedCategories = rawCategories ? JSON.parse(rawCategories) : null
+          await apiRequest("/api/import", {
+            method: "POST",
+            body: JSON.stringify({
+              categories: parsedCategories?.categories ?? [],
+              sessions: rawSessions ? JSON.parse(rawSessions) : [],
+            }),
+          })
+          if (parsedCategories?.activeId) localStorage.setItem(ACTIVE_CATEGORY_STORAGE, parsedCategories.activeId)
         }
-        setCategories(parsed.categories)
-        setActiveCategoryId(parsed.activeId || parsed.categories[0]?.id || "")
-      } else {
-        const defaults: Category[] = [
-          { id: "quan-ly-du-an", name: "Quản lý dự án", icon: "book" },
-          {
-            id: "nghien-cuu-giai-phap",
-            name: "Nghiên cứu giải pháp",
-            icon: "flask",
-          },
-        ]
-        setCategories(defaults)
-        setActiveCategoryId(defaults[0].id)
-        localStorage.setItem(CATEGORIES_STORAGE, JSON.stringify({ categories: defaults, activeId: defaults[0].id }))
+        // the old keys stay untouched as a backup
+        localStorage.setItem(IMPORT_FLAG_STORAGE, String(Date.now()))
+      } catch (error) {
+        console.error("Failed to import local history:", error)
+      } finally {
+        setDone(true)
       }
-    } catch {
-      const defaults: Category[] = [
-        { id: "quan-ly-du-an", name: "Quản lý dự án", icon: "book" },
-        {
-          id: "nghien-cuu-giai-phap",
-          name: "Nghiên cứu giải pháp",
-          icon: "flask",
-        },
-      ]
-      setCategories(defaults)
-      setActiveCategoryId(defaults[0].id)
     }
+    importLocalData()
+  }, [])
+
+  return done
+}
+
+// --- Language ---
+// The UI locale, and whether answers follow the language of each question instead of the UI
+function useLanguageSettings() {
+  const [locale, setLocale] = useState<Locale>("vi")
+  const [autoLanguage, setAutoLanguage] = useState(false)
+
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(LANGUAGE_STORAGE) ?? "{}")
+      if (isLocale(saved.locale)) setLocale(saved.locale)
+      if (typeof saved.autoLanguage === "boolean") setAutoLanguage(saved.autoLanguage)
+    } catch {}
   }, [])
 
   useEffect(() => {
-    if (!categories.length) return
+    document.documentElement.lang = locale
+    try {
+      localStorage.setItem(LANGUAGE_STORAGE, JSON.stringify({ locale, autoLanguage }))
+    } catch {}
+  }, [locale, autoLanguage])
+
+  return { locale, setLocale, autoLanguage, setAutoLanguage, t: getMessages(locale) }
+}
+
+const LanguageContext = createContext<ReturnType<typeof useLanguageSettings> | null>(null)
+
+function useLanguage() {
+  const language = useContext(LanguageContext)
+  if (!language) throw new Error("useLanguage must be used inside the chat page")
+  return language
+}
+
+// UI strings of the selected locale
+function useMessages() {
+  return useLanguage().t
+}
+
+// --- Categories (folders) state ---
+function useCategories(ready: boolean) {
+  const [categories, setCategories] = useState<Category[]>([])
+  const [activeCategoryId, setActiveCategoryId] = useState<string>("")
+
+  useEffect(() => {
+    if (!ready) return
+    apiRequest<{ categories: Category[] }>("/api/categories")
+      .then((data) => {
+        setCategories(data.categories)
+        const saved = localStorage.getItem(ACTIVE_CATEGORY_STORAGE)
+        const active = data.categories.find((c) => c.id === saved) ?? data.categories[0]
+        setActiveCategoryId(active?.id ?? "")
+      })
+      .catch((error) => console.error("Failed to load categories:", error))
+  }, [ready])
+
+  useEffect(() => {
+    if (!activeCategoryId) return
     try {
-      localStorage.setItem(CATEGORIES_STORAGE, JSON.stringify({ categories, activeId: activeCategoryId }))
+      localStorage.setItem(ACTIVE_CATEGORY_STORAGE, activeCategoryId)
     } catch {}
-  }, [categories, activeCategoryId])
+  }, [activeCategoryId])
 
   function createCategory(name: string) {
     const base = slugify(name) || "chu-de-moi"
@@ -366,6 +579,7 @@ function useCategories() {
     const cat: Category = { id, name, icon: "folder" }
     setCategories((prev) => [cat, ...prev])
     setActiveCategoryId(cat.id)
+    persist(apiRequest("/api/categories", { method: "POST", body: JSON.stringify(cat) }), "create category")
   }
 
   return {
@@ -376,50 +590,142 @@ function useCategories() {
   }
 }
 
+// --- Category knowledge base ---
+// Documents attached to a category are indexed on the server; every session in the category retrieves from them
+function useCategoryDocuments(categoryId: string, t: Messages) {
+  const [documents, setDocuments] = useState<CategoryDocument[]>([])
+  const [busy, setBusy] = useState(false)
+  const url = `/api/categories/${encodeURIComponent(categoryId)}/documents`
+
+  useEffect(() => {
+    setDocuments([])
+    if (!categoryId) return
+    apiRequest<{ documents: CategoryDocument[] }>(url)
+      .then((data) => setDocuments(data.documents))
+      .catch((error) => console.error("Failed to load category documents:", error))
+  }, [categoryId, url])
+
+  // Unlike history saves these are awaited: indexing takes a while and the list comes back from the server
+  async function update(action: () => Promise<{ documents: CategoryDocument[] }>) {
+    setBusy(true)
+    try {
+      setDocuments((await action()).documents)
+    } catch (error) {
+      alert(interpolate(t.ui.errorPrefix, { error: error instanceof Error ? error.message : String(error) }))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function addFiles(files: FileList | null) {
+    const selected = Array.from(files ?? [])
+    const tooLarge = selected.filter((file) => file.size > MAX_FILE_SIZE)
+    if (tooLarge.length > 0) {
+      alert(
+        interpolate(t.ui.filesRejected, {
+          errors: tooLarge.map((file) => interpolate(t.ui.fileTooLarge, { name: file.name })).join("\n"),
+        }),
+      )
+    }
+    const accepted = selected.filter((file) => file.size <= MAX_FILE_SIZE)
+    if (accepted.length === 0) return
+    update(async () => {
+      const uploaded = await uploadAttachments(accepted)
+      const data = await apiRequest<{ documents: CategoryDocument[]; skipped: string[] }>(url, {
+        method: "POST",
+        body: JSON.stringify({ attachments: uploaded.map((attachment) => attachment.id) }),
+      })
+      if (data.skipped.length > 0) alert(interpolate(t.ui.documentsSkipped, { names: data.skipped.join("\n") }))
+      return data
+    })
+  }
+
+  function removeDocument(id: string) {
+    update(async () => {
+      await apiRequest(`${url}/${encodeURIComponent(id)}`, { method: "DELETE" })
+      return { documents: documents.filter((doc) => doc.id !== id) }
+    })
+  }
+
+  // Without an id every document of the category is extracted and chunked again
+  function reindex(id?: string) {
+    update(() =>
+      apiRequest<{ documents: CategoryDocument[] }>(`${url}/reindex`, {
+        method: "POST",
+        body: JSON.stringify(id ? { ids: [id] } : {}),
+      }),
+    )
+  }
+
+  return { documents, busy, addFiles, removeDocument, reindex }
+}
+
 // --- Sessions state ---
-function useChatSessions(defaultCategoryId: string) {
+function useChatSessions(defaultCategoryId: string, ready: boolean, t: Messages) {
   const [sessions, setSessions] = useState<ChatSession[]>([])
   const [activeId, setActiveId] = useState<string | null>(null)
+  // sessions whose turns have been fetched; the list endpoint only returns summaries
+  const loadedIds = useRef(new Set<string>())
+  // creations still in flight, by session id; a turn sent right after "new chat" must not reach the server first
+  const creating = useRef(new Map<string, Promise<unknown>>())
+
+  // Sends `request` once the session exists on the server (or its creation has failed)
+  function afterCreated(sessionId: string, request: () => Promise<unknown>) {
+    const pending = creating.current.get(sessionId)
+    return pending ? pending.then(request, request) : request()
+  }
 
-  // Load
-  useEffect(() => {
-    try {
-      const raw = localStorage.getItem(SESSIONS_STORAGE)
-      if (raw) {
-        const parsed = JSON.parse(raw) as ChatSession[]
-        setSessions(parsed)
-        setActiveId(parsed[0]?.id ?? null)
-      } else {
-        const initial: ChatSession = {
-          id: uuidv4(),
-          title: "Cuộc trò chuyện mới",
-          createdAt: Date.now(),
-          categoryId: defaultCategoryId,
-          turns: [],
-        }
-        setSessions([initial])
-        setActiveId(initial.id)
-      }
-    } catch {
-      const initial: ChatSession = {
-        id: uuidv4(),
-        title: "Cuộc trò chuyện mới",
-        createdAt: Date.now(),
-        categoryId: defaultCategoryId,
-        turns: [],
-      }
-      setSessions([initial])
-      setActiveId(initial.id)
+  function createEmptySession(categoryId: string): ChatSession {
+    const s: ChatSession = {
+      id: uuidv4(),
+      title: t.ui.newSessionTitle,
+      createdAt: Date.now(),
+      categoryId,
+      turns: [],
     }
+    loadedIds.current.add(s.id)
+    const created = apiRequest("/api/sessions", { method: "POST", body: JSON.stringify(s) }).finally(() =>
+      creating.current.delete(s.id),
+    )
+    creating.current.set(s.id, created)
+    persist(created, "create session")
+    return s
+  }
+
+  // Load (once; the effect runs twice in development)
+  const loadStarted = useRef(false)
+  useEffect(() => {
+    if (!ready || loadStarted.current) return
+    loadStarted.current = true
+    apiRequest<{ sessions: Omit<ChatSession, "turns">[] }>("/api/sessions")
+      .then((data) => {
+        const loaded = data.sessions.map((s) => ({ ...s, turns: [] as ChatTurn[] }))
+        const list = loaded.length > 0 ? loaded : [createEmptySession(defaultCategoryId)]
+        setSessions(list)
+        setActiveId(list[0].id)
+      })
+      .catch((error) => {
+        loadStarted.current = false
+        console.error("Failed to load sessions:", error)
+      })
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [])
+  }, [ready])
 
-  // Persist
+  // Fetch the turns of a session the first time it is opened
   useEffect(() => {
-    try {
-      localStorage.setItem(SESSIONS_STORAGE, JSON.stringify(sessions))
-    } catch {}
-  }, [sessions])
+    if (!activeId || loadedIds.current.has(activeId)) return
+    loadedIds.current.add(activeId)
+    apiRequest<{ session: ChatSession }>(`/api/sessions/${activeId}`)
+      .then(({ session }) => {
+        setSessions((prev) =>
+          prev.map((s) => (s.id === session.id ? { ...s, turns: session.turns, summary: session.summary } : s)),
+        )
+      })
+      .catch((error) => {
+        loadedIds.current.delete(activeId)
+        console.error("Failed to load session:", error)
+      })
+  }, [activeId])
 
   useEffect(() => {
     if (!activeId && sessions.length > 0) {
@@ -430,59 +736,75 @@ function useChatSessions(defaultCategoryId: string) {
   const active = useMemo(() => sessions.find((s) => s.id === activeId) ?? null, [sessions, activeId])
 
   function newSession(categoryId: string) {
-    const s: ChatSession = {
-      id: uuidv4(),
-      title: "Cuộc trò chuyện mới",
-      createdAt: Date.now(),
-      categoryId,
-      turns: [],
-    }
+    const s = createEmptySession(categoryId)
     setSessions((prev) => [s, ...prev])
     setActiveId(s.id)
   }
 
   function deleteSession(id: string) {
-    setSessions((prev) => {
-      const next = prev.filter((s) => s.id !== id)
-      if (next.length === 0) {
-        const s: ChatSession = {
-          id: uuidv4(),
-          title: "Cuộc trò chuyện mới",
-          createdAt: Date.now(),
-          categoryId: defaultCategoryId,
-          turns: [],
-        }
-        // đặt active ngay khi tạo mới
-        setActiveId(s.id)
-        return [s]
-      }
-      // nếu đang active và bị xoá, chuyển sang phần tử đầu tiên còn lại
-      setActiveId((curr) => (curr === id ? next[0].id : curr))
-      return next
-    })
+    persist(
+      afterCreated(id, () => apiRequest(`/api/sessions/${id}`, { method: "DELETE" })),
+      "delete session",
+    )
+    const next = sessions.filter((s) => s.id !== id)
+    if (next.length === 0) {
+      const s = createEmptySession(defaultCategoryId)
+      setSessions([s])
+      // đặt active ngay khi tạo mới
+      setActiveId(s.id)
+      return
+    }
+    setSessions(next)
+    // nếu đang active và bị xoá, chuyển sang phần tử đầu tiên còn lại
+    setActiveId((curr) => (curr === id ? next[0].id : curr))
   }
 
   function renameSession(id: string, title: string) {
     setSessions((prev) => prev.map((s) => (s.id === id ? { ...s, title } : s)))
+    persist(
+      afterCreated(id, () => apiRequest(`/api/sessions/${id}`, { method: "PATCH", body: JSON.stringify({ title }) })),
+      "rename session",
+    )
   }
 
   function setActive(id: string) {
     setActiveId(id)
   }
 
-  function addTurn(sessionId: string, turn: ChatTurn) {
+  // The server names the session after its first question too, so both sides agree on the title
+  // `summary` is set when the request that produced the turn updated the session's summary
+  function addTurn(sessionId: string, turn: ChatTurn, summary?: ConversationSummaryPayload) {
     setSessions((prev) =>
       prev.map((s) => {
         if (s.id !== sessionId) return s
         const isFirst = s.turns.length === 0
-        const newTitle = isFirst ? (turn.user.content || "Cuộc trò chuyện").slice(0, 40) : s.title
-        return { ...s, title: newTitle, turns: [...s.turns, turn] }
+        const newTitle = isFirst ? (turn.user.content || t.ui.untitledSession).slice(0, 40) : s.title
+        return {
+          ...s,
+          title: newTitle,
+          turns: [...s.turns, turn],
+          totalTokens: (s.totalTokens ?? 0) + (turn.usage?.totalTokens ?? 0),
+          costUsd: (s.costUsd ?? 0) + (turn.usage?.costUsd ?? 0),
+          summary: summary ?? s.summary,
+        }
       }),
     )
+    persist(
+      afterCreated(sessionId, () =>
+        apiRequest(`/api/sessions/${sessionId}/turns`, { method: "POST", body: JSON.stringify({ turn }) }),
+      ),
+      "save turn",
+    )
   }
 
   function clearActiveSession(sessionId: string) {
-    setSessions((prev) => prev.map((s) => (s.id === sessionId ? { ...s, turns: [] } : s)))
+    setSessions((prev) =>
+      prev.map((s) => (s.id === sessionId ? { ...s, turns: [], totalTokens: 0, costUsd: 0, summary: undefined } : s)),
+    )
+    persist(
+      afterCreated(sessionId, () => apiRequest(`/api/sessions/${sessionId}/turns`, { method: "DELETE" })),
+      "clear session",
+    )
   }
 
   return {
@@ -499,7 +821,107 @@ function useChatSessions(defaultCategoryId: string) {
 }
 
 // --- UI Helpers ---
+// Sidebar panel of the active category's knowledge base
+function CategoryDocuments({ categoryId }: { categoryId: string }) {
+  const t = useMessages()
+  const { documents, busy, addFiles, removeDocument, reindex } = useCategoryDocuments(categoryId, t)
+  const [open, setOpen] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  if (!categoryId) return null
+
+  return (
+    <div className="mt-3 px-2">
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        className="flex w-full items-center gap-2 px-1 text-xs text-muted-foreground hover:text-foreground"
+      >
+        {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        <BookMarked className="h-3.5 w-3.5" />
+        <span className="flex-1 text-left">{t.ui.knowledgeBase}</span>
+        <span>{documents.length}</span>
+      </button>
+      {open && (
+        <div className="mt-2 space-y-1 rounded-md border bg-white p-2">
+          <p className="px-1 text-xs text-muted-foreground">{t.ui.knowledgeBaseHint}</p>
+          {documents.map((doc) => (
+            <div key={doc.id} className="group flex items-center gap-2 rounded px-1 py-1 text-sm hover:bg-emerald-50">
+              <FileText className="h-3.5 w-3.5 shrink-0 text-emerald-600" />
+              <span className="flex-1 truncate" title={doc.name}>
+                {doc.name}
+              </span>
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {interpolate(t.ui.documentChunks, { count: doc.chunks })}
+              </span>
+              <span className="flex shrink-0 items-center opacity-0 transition-opacity group-hover:opacity-100">
+                <button
+                  type="button"
+                  aria-label={t.ui.reindex}
+                  title={t.ui.reindex}
+                  disabled={busy}
+                  className="rounded p-1 text-muted-foreground hover:text-foreground"
+                  onClick={() => reindex(doc.id)}
+                >
+                  <RefreshCw className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  aria-label={t.ui.delete}
+                  disabled={busy}
+                  className="rounded p-1 text-muted-foreground hover:bg-rose-50 hover:text-rose-600"
+                  onClick={() => {
+                    if (confirm(interpolate(t.ui.removeDocumentConfirm, { name: doc.name }))) {
+                      removeDocument(doc.id)
+                    }
+                  }}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </span>
+            </div>
+          ))}
+          {documents.length === 0 && <p className="px-1 py-2 text-xs text-muted-foreground">{t.ui.noDocuments}</p>}
+          <div className="flex gap-1 pt-1">
+            <Button
+              size="sm"
+              variant="secondary"
+              className="flex-1 justify-start"
+              disabled={busy}
+              onClick={() => inputRef.current?.click()}
+            >
+              {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              {t.ui.addDocuments}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              aria-label={t.ui.reindexAll}
+              title={t.ui.reindexAll}
+              disabled={busy || documents.length === 0}
+              onClick={() => reindex()}
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            hidden
+            accept=".txt,.md,.csv,.json,.docx,.xlsx,.xls"
+            onChange={(e) => {
+              addFiles(e.target.files)
+              e.target.value = ""
+            }}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
 function MessageBubble({ role, content }: { role: Role; content: string }) {
+  const t = useMessages()
   const isUser = role === "user"
   return (
     <div
@@ -511,7 +933,7 @@ function MessageBubble({ role, content }: { role: Role; content: string }) {
       {!isUser && (
         <div className="mt-1 rounded-full bg-emerald-100 p-2 text-emerald-700">
           <Bot className="h-4 w-4" />
-          <span className="sr-only">{"Assistant"}</span>
+          <span className="sr-only">{t.answer.assistant}</span>
         </div>
       )}
       <div
@@ -526,50 +948,354 @@ function MessageBubble({ role, content }: { role: Role; content: string }) {
       {isUser && (
         <div className="mt-1 rounded-full bg-emerald-100 p-2 text-emerald-700">
           <User className="h-4 w-4" />
-          <span className="sr-only">{"User"}</span>
+          <span className="sr-only">{t.answer.user}</span>
         </div>
       )}
     </div>
   )
 }
 
-// Convert Gemini response to HTML
-const convertToHtml = (text: string) => {
-  const escapeHtml = (value: string) =>
-    value
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#39;')
+const URL_PATTERN = /(https?:\/\/[^\s]+)/g
+
+// Plain text answers are rendered as text nodes (line breaks kept by whitespace-pre-wrap) with bare URLs linked
+function linkify(text: string) {
+  return text.split(URL_PATTERN).map((part, i) =>
+    i % 2 === 1 ? (
+      <a key={i} href={part} target="_blank" rel="noopener noreferrer" className="text-emerald-700 underline">
+        {part}
+      </a>
+    ) : (
+      part
+    ),
+  )
+}
 
-  const urlRegex = /(https?:\/\/[^\s]+)/g
+// remark plugin: [n] in Markdown text (never inside code) becomes a #cite-n link, rendered as a citation chip, when
+// n is one of the `count` references; other bracketed numbers ([2024], a[0]) stay text
+function remarkCitations({ count }: { count: number }) {
+  const split = (node: Text): PhrasingContent[] =>
+    node.value
+      .split(/\[(\d+)\]/)
+      .map((part, i): PhrasingContent => {
+        if (i % 2 === 0) return { type: "text", value: part }
+        const n = Number(part)
+        return n >= 1 && n <= count
+          ? { type: "link", url: `#cite-${n}`, children: [{ type: "text", value: part }] }
+          : { type: "text", value: `[${part}]` }
+      })
+      .filter((child) => child.type === "link" || (child.type === "text" && child.value))
+  const walk = (node: Parents) => {
+    if (node.type === "link") return
+    const children = (node.children as RootContent[]).flatMap((child): RootContent[] => {
+      if (child.type === "text") return split(child)
+      if ("children" in child) walk(child)
+      return [child]
+    })
+    node.children = children as typeof node.children
+  }
+  return (tree: Root) => walk(tree)
+}
 
-  const escaped = escapeHtml(text)
+function CitationChip({ index, reference }: { index: number; reference: SearchReferencePayload }) {
+  return (
+    <HoverCard openDelay={150}>
+      <HoverCardTrigger asChild>
+        <a
+          href={reference.url || undefined}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded-full bg-emerald-100 px-1 align-super text-[10px] font-medium text-emerald-700 no-underline hover:bg-emerald-200"
+        >
+          {index}
+        </a>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80 whitespace-normal">
+        <p className="text-sm font-semibold leading-snug">{reference.title}</p>
+        {reference.content && <p className="mt-1 line-clamp-4 text-xs text-muted-foreground">{reference.content}</p>}
+        {reference.url && (
+          <a
+            href={reference.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mt-2 block truncate text-xs text-emerald-700 hover:underline"
+          >
+            {reference.url}
+          </a>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  )
+}
+
+// No typography plugin is installed, so Markdown elements are styled here
+function markdownComponents(references: SearchReferencePayload[]): Components {
+  return {
+    h1: ({ children }) => <h3 className="mb-2 mt-4 text-base font-semibold">{children}</h3>,
+    h2: ({ children }) => <h3 className="mb-2 mt-4 text-base font-semibold">{children}</h3>,
+    h3: ({ children }) => <h4 className="mb-1 mt-3 text-sm font-semibold">{children}</h4>,
+    p: ({ children }) => <p className="my-2">{children}</p>,
+    ul: ({ children }) => <ul className="my-2 list-disc space-y-1 pl-5">{children}</ul>,
+    ol: ({ children }) => <ol className="my-2 list-decimal space-y-1 pl-5">{children}</ol>,
+    blockquote: ({ children }) => <blockquote className="my-2 border-l-2 pl-3 text-muted-foreground">{children}</blockquote>,
+    pre: ({ children }) => <pre className="my-2 overflow-x-auto rounded-md bg-muted p-3 text-xs">{children}</pre>,
+    code: ({ className, children }) => (
+      <code className={cn("rounded bg-muted px-1 py-0.5 font-mono text-xs", className)}>{children}</code>
+    ),
+    table: ({ children }) => (
+      <div className="my-2 overflow-x-auto">
+        <table className="w-full border-collapse text-xs">{children}</table>
+      </div>
+    ),
+    th: ({ children }) => <th className="border bg-muted px-2 py-1 text-left font-semibold">{children}</th>,
+    td: ({ children }) => <td className="border px-2 py-1 align-top">{children}</td>,
+    a: ({ href, children }) => {
+      const cited = href?.match(/^#cite-(\d+)$/)
+      const reference = cited ? references[Number(cited[1]) - 1] : undefined
+      if (cited) return reference ? <CitationChip index={Number(cited[1])} reference={reference} /> : `[${cited[1]}]`
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="text-emerald-700 underline">
+          {children}
+        </a>
+      )
+    },
+  }
+}
+
+const CHART_COLORS = ["#059669", "#2563eb", "#d97706", "#dc2626", "#7c3aed", "#0891b2", "#db2777", "#65a30d"]
 
-  return escaped.replace(
-    urlRegex,
-    (url) => `<a href="${url}" target="_blank" rel="noopener noreferrer">${url}</a>`,
+// The server takes ```chart blocks out of the final answer; while it streams, hide them (finished or not) instead
+// of showing their JSON
+function withoutChartBlocks(text: string) {
+  return text.replace(/```chart[\s\S]*?(```|$)/g, "")
+}
+
+function chartCsv(chart: ChartSpecPayload) {
+  const cell = (value: string | number | null | undefined) => {
+    const text = value == null ? "" : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+  const keys = [chart.xKey, ...chart.series.map((series) => series.key)]
+  const header = [chart.xKey, ...chart.series.map((series) => series.label ?? series.key)]
+  const rows = chart.data.map((row) => keys.map((key) => row[key]))
+  // the BOM makes Excel read the file as UTF-8
+  return "\uFEFF" + [header, ...rows].map((row) => row.map(cell).join(",")).join("\r\n")
+}
+
+// Draws the chart's SVG onto a white canvas at twice its size
+function downloadSvgAsPng(filename: string, svg: SVGSVGElement) {
+  const { width, height } = svg.getBoundingClientRect()
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg")
+  clone.setAttribute("width", String(width))
+  clone.setAttribute("height", String(height))
+  const image = new Image()
+  image.onload = () => {
+    const scale = 2
+    const canvas = document.createElement("canvas")
+    canvas.width = width * scale
+    canvas.height = height * scale
+    const context = canvas.getContext("2d")
+    if (!context) return
+    context.scale(scale, scale)
+    context.fillStyle = "#ffffff"
+    context.fillRect(0, 0, width, height)
+    context.drawImage(image, 0, 0, width, height)
+    canvas.toBlob((blob) => blob && downloadBlob(filename, blob), "image/png")
+  }
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(clone))}`
+}
+
+function AnswerChart({ chart }: { chart: ChartSpecPayload }) {
+  const t = useMessages()
+  const plotRef = useRef<HTMLDivElement>(null)
+  const fileName = () => `${slugify(chart.title || "chart") || "chart"}-${formatTimestamp()}`
+  const axisTick = { fontSize: 12 }
+
+  function handleDownloadPng() {
+    // the legend is HTML, so only the plot itself ends up in the image
+    const svg = plotRef.current?.querySelector<SVGSVGElement>(".recharts-wrapper > svg")
+    if (svg) downloadSvgAsPng(`${fileName()}.png`, svg)
+  }
+
+  return (
+    <div className="mt-4 rounded-lg border p-3">
+      {chart.title && <div className="mb-2 text-sm font-medium">{chart.title}</div>}
+      <div ref={plotRef} className="h-64 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          {chart.type === "pie" ? (
+            <PieChart>
+              <Pie data={chart.data} dataKey={chart.series[0].key} nameKey={chart.xKey} outerRadius="75%" label>
+                {chart.data.map((_, index) => (
+                  <Cell key={index} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+                ))}
+              </Pie>
+              <Tooltip />
+              <Legend />
+            </PieChart>
+          ) : chart.type === "line" ? (
+            <LineChart data={chart.data}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey={chart.xKey} tick={axisTick} />
+              <YAxis tick={axisTick} />
+              <Tooltip />
+              <Legend />
+              {chart.series.map((series, index) => (
+                <Line
+                  key={series.key}
+                  type="monotone"
+                  dataKey={series.key}
+                  name={series.label ?? series.key}
+                  stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                  strokeWidth={2}
+                />
+              ))}
+            </LineChart>
+          ) : (
+            <BarChart data={chart.data}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey={chart.xKey} tick={axisTick} />
+              <YAxis tick={axisTick} />
+              <Tooltip />
+              <Legend />
+              {chart.series.map((series, index) => (
+                <Bar
+                  key={series.key}
+                  dataKey={series.key}
+                  name={series.label ?? series.key}
+                  fill={CHART_COLORS[index % CHART_COLORS.length]}
+                />
+              ))}
+            </BarChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+      <div className="mt-2 flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={handleDownloadPng} title={t.ui.chartDownloadPng}>
+          <ImageIcon className="mr-2 h-4 w-4" />
+          {t.ui.downloadPng}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadTextFile(`${fileName()}.csv`, chartCsv(chart), "text/csv;charset=utf-8")}
+          title={t.ui.chartDownloadCsv}
+        >
+          <Table className="mr-2 h-4 w-4" />
+          {t.ui.downloadCsv}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// [n] markers point into the turn's search references; the server has already dropped markers without one.
+// react-markdown never renders raw HTML and drops unsafe link protocols, so model output can't inject markup.
+function AnswerText({
+  text,
+  references,
+  format = "text",
+}: {
+  text: string
+  references: SearchReferencePayload[]
+  format?: OutputFormat
+}) {
+  if (format === "markdown") {
+    return (
+      <ReactMarkdown remarkPlugins={[remarkGfm, [remarkCitations, { count: references.length }]]} components={markdownComponents(references)}>
+        {text}
+      </ReactMarkdown>
+    )
+  }
+  if (format === "json") {
+    let pretty = text
+    try {
+      pretty = JSON.stringify(JSON.parse(text), null, 2)
+    } catch {
+      // still streaming, or not valid JSON; show it as it came
+    }
+    return <pre className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs">{pretty}</pre>
+  }
+  const parts = text.split(/\[(\d+)\]/)
+  return (
+    <div className="whitespace-pre-wrap">
+      {parts.map((part, i) => {
+        if (i % 2 === 0) return part ? <span key={i}>{linkify(part)}</span> : null
+        const reference = references[Number(part) - 1]
+        return reference ? <CitationChip key={i} index={Number(part)} reference={reference} /> : `[${part}]`
+      })}
+    </div>
   )
 }
 
+const STEP_BADGE_COLORS: Record<string, string> = {
+  context: "bg-gray-200 text-gray-700",
+  retrieve: "bg-amber-100 text-amber-700",
+  search: "bg-purple-100 text-purple-700",
+  research: "bg-purple-100 text-purple-700",
+  rewrite: "bg-orange-100 text-orange-700",
+  answer: "bg-emerald-100 text-emerald-700",
+  postprocess: "bg-blue-100 text-blue-700",
+}
+
+const WORKFLOW_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  bot: Bot,
+  flask: FlaskConical,
+  zap: Zap,
+  lightbulb: Lightbulb,
+  chart: BarChart3,
+}
+
+const OUTPUT_FORMATS: OutputFormat[] = ["text", "markdown", "json"]
+
+const WORKFLOW_COLORS: Record<string, { icon: string; badge: string }> = {
+  blue: { icon: "text-blue-600", badge: "bg-blue-100 text-blue-700" },
+  purple: { icon: "text-purple-600", badge: "bg-purple-100 text-purple-700" },
+  emerald: { icon: "text-emerald-600", badge: "bg-emerald-100 text-emerald-700" },
+  orange: { icon: "text-orange-600", badge: "bg-orange-100 text-orange-700" },
+}
+
+// Older turns stored the ChatGPT prompt log ({ input: { user }, output }) instead of a step trace
+function toTraceSteps(workflowSteps: any, t: Messages): WorkflowStepTrace[] {
+  if (!Array.isArray(workflowSteps) || workflowSteps.length === 0) return []
+  if (typeof workflowSteps[0]?.label === "string") return workflowSteps
+  return [
+    { index: 1, kind: "input", label: t.ui.originalQuestion, output: workflowSteps[0]?.input?.user ?? "" },
+    { index: 2, kind: "rewrite", label: t.ui.legacyRewriteStep, output: workflowSteps[0]?.output ?? "" },
+  ]
+}
+
 function DualAnswer({
   chatgpt,
   gemini,
   workflowSteps,
   searchResults,
+  answeredBy,
+  usage,
+  format,
+  templates,
+  charts,
+  streaming = false,
 }: {
   chatgpt: string
   gemini: string
   workflowSteps?: any
   searchResults?: any
+  answeredBy?: ChatTurn["answeredBy"]
+  usage?: ChatTurn["usage"]
+  format?: OutputFormat
+  templates?: ChatTurn["templates"]
+  charts?: ChatTurn["charts"]
+  streaming?: boolean
 }) {
+  const t = useMessages()
   const [showWorkflow, setShowWorkflow] = useState(false)
+  const traceSteps = toTraceSteps(workflowSteps, t)
+  const references: SearchReferencePayload[] = Array.isArray(searchResults?.results) ? searchResults.results : []
 
   function handleDownload(modelLabel: string, body: string, ext: "md" | "txt") {
     const ts = formatTimestamp()
     const name = `${slugify(modelLabel)}-${ts}.${ext}`
-    const content = ext === "md" ? makeMarkdown(modelLabel, body) : body
+    const content = ext === "md" ? makeMarkdown(modelLabel, body, t) : body
     const mime = ext === "md" ? "text/markdown;charset=utf-8" : "text/plain;charset=utf-8"
     downloadTextFile(name, content, mime)
   }
@@ -644,7 +1370,7 @@ function DualAnswer({
 
   return (
     <div className="grid grid-cols-1 gap-3 sm:gap-4">
-      {workflowSteps && workflowSteps.length > 0 && (
+      {traceSteps.length > 0 && (
         <div className="mx-1 sm:mx-0">
           <Button
             variant="ghost"
@@ -653,61 +1379,101 @@ function DualAnswer({
             className="mb-2 h-8 px-2 text-xs text-muted-foreground hover:text-foreground"
           >
             {showWorkflow ? <EyeOff className="mr-1 h-3 w-3" /> : <Eye className="mr-1 h-3 w-3" />}
-            {showWorkflow ? "Ẩn luồng xử lý" : "Xem luồng xử lý"}
+            {showWorkflow ? t.ui.hideWorkflow : t.ui.showWorkflow}
             {showWorkflow ? <ChevronDown className="ml-1 h-3 w-3" /> : <ChevronRight className="ml-1 h-3 w-3" />}
           </Button>
 
           {showWorkflow && (
             <div className="mb-4 rounded-lg border border-dashed border-gray-300 bg-gray-50/50 p-4">
               <div className="space-y-4">
-                {/* Step 1: Original Question */}
-                <div className="flex items-start gap-3">
-                  <div className="flex h-6 w-6 items-center justify-center rounded-full bg-blue-100 text-xs font-medium text-blue-700">
-                    1
-                  </div>
-                  <div className="flex-1">
-                    <h4 className="text-sm font-medium text-gray-900">Câu hỏi gốc</h4>
-                    <p className="mt-1 text-sm text-gray-500">{workflowSteps[0]?.input?.user ?? ""}</p>
-                  </div>
-                </div>
-
-                {/* Arrow */}
-                <div className="ml-3 flex items-center">
-                  <ChevronDown className="h-4 w-4 text-gray-400" />
-                </div>
-
-                {/* Step 2: ChatGPT generates prompt */}
-                <div className="flex items-start gap-3">
-                  <div className="flex h-6 w-6 items-center justify-center rounded-full bg-orange-100 text-xs font-medium text-orange-700">
-                    2
+                {traceSteps.map((step, i) => (
+                  <div key={`${step.index}-${step.label}`} className="space-y-4">
+                    {i > 0 && (
+                      <div className="ml-3 flex items-center">
+                        <ChevronDown className="h-4 w-4 text-gray-400" />
+                      </div>
+                    )}
+                    <div className="flex items-start gap-3">
+                      <div
+                        className={cn(
+                          "flex h-6 w-6 items-center justify-center rounded-full text-xs font-medium",
+                          STEP_BADGE_COLORS[step.kind] ?? "bg-gray-100 text-gray-700",
+                        )}
+                      >
+                        {step.index}
+                      </div>
+                      <div className="flex-1">
+                        <h4 className="text-sm font-medium text-gray-900">
+                          {step.label}
+                          {step.model && <span className="ml-2 text-xs font-normal text-gray-400">{step.model}</span>}
+                        </h4>
+                        {(step.usage || step.durationMs !== undefined) && (
+                          <p className="mt-0.5 text-xs text-gray-400">
+                            {[
+                              step.usage &&
+                                interpolate(t.ui.stepTokens, {
+                                  input: step.usage.promptTokens,
+                                  output: step.usage.outputTokens,
+                                }),
+                              step.costUsd !== undefined && formatCost(step.costUsd),
+                              step.durationMs !== undefined && formatDuration(step.durationMs),
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </p>
+                        )}
+                        <p className="mt-1 whitespace-pre-wrap text-sm text-gray-500">{step.output || step.input || ""}</p>
+                        {Array.isArray(step.details?.toolCalls) && (
+                          <ul className="mt-2 space-y-1">
+                            {(step.details.toolCalls as ToolCallTrace[]).map((call, j) => (
+                              <li key={j} className="rounded-md border border-gray-200 bg-white px-2 py-1 text-xs">
+                                <div className="flex items-center gap-1 text-gray-700">
+                                  <Wrench className="h-3 w-3 text-gray-400" />
+                                  <span className="font-mono font-medium">{call.name}</span>
+                                  {typeof call.args.code !== "string" && (
+                                    <span className="truncate font-mono text-gray-400">{JSON.stringify(call.args)}</span>
+                                  )}
+                                  <span className="ml-auto shrink-0 text-gray-400">{formatDuration(call.durationMs)}</span>
+                                </div>
+                                {/* code the model ran in the sandbox (run_analysis) */}
+                                {typeof call.args.code === "string" && (
+                                  <pre className="mt-1 overflow-x-auto rounded bg-gray-50 p-1.5 font-mono text-gray-600">
+                                    {call.args.code}
+                                  </pre>
+                                )}
+                                <p
+                                  className={cn(
+                                    "mt-0.5 whitespace-pre-wrap break-words font-mono",
+                                    call.error ? "text-red-600" : "text-gray-500",
+                                  )}
+                                >
+                                  {call.error ? interpolate(t.ui.errorPrefix, { error: call.error }) : call.output}
+                                </p>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    </div>
                   </div>
-                  <div className="flex-1">
-                    <h4 className="text-sm font-medium text-gray-900">ChatGPT sinh prompt</h4>
-                    <p className="mt-1 text-sm text-gray-500">{workflowSteps[0]?.output ?? ""}</p>
+                ))}
+              </div>
+              {templates && templates.length > 0 && (
+                <div className="mt-4 border-t border-dashed border-gray-300 pt-3">
+                  <h4 className="text-xs font-medium text-gray-500">{t.ui.templatesUsed}</h4>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {templates.map((template) => (
+                      <a
+                        key={`${template.locale}-${template.name}`}
+                        href={`/admin/prompts?name=${encodeURIComponent(template.name)}&locale=${template.locale}`}
+                        className="rounded bg-white px-1.5 py-0.5 font-mono text-[11px] text-gray-600 ring-1 ring-gray-200 hover:text-emerald-700"
+                      >
+                        {template.name} · {template.version === 0 ? t.admin.builtIn : `v${template.version}`}
+                      </a>
+                    ))}
                   </div>
                 </div>
-
-                {/* Arrow */}
-                {/* <div className="ml-3 flex items-center">
-                  <ChevronDown className="h-4 w-4 text-gray-400" />
-                </div> */}
-
-                {/* Step 3: Gemini result */}
-                {/* <div className="flex items-start gap-3">
-                  <div className="flex h-6 w-6 items-center justify-center rounded-full bg-emerald-100 text-xs font-medium text-emerald-700">
-                    3
-                  </div>
-                  <div className="flex-1">
-                    <h4 className="text-sm font-medium text-gray-900">
-                      Kết quả từ Gemini
-                    </h4>
-                    <p className="mt-1 text-sm text-gray-500">
-                      Hiển thị phản hồi chi tiết từ Gemini dựa trên prompt đã
-                      được tối ưu hóa...
-                    </p>
-                  </div>
-                </div> */}
-              </div>
+              )}
             </div>
           )}
         </div>
@@ -719,18 +1485,42 @@ function DualAnswer({
           <CardTitle className="flex items-center gap-2 text-base">
             <SplitSquareVertical className="h-4 w-4 text-emerald-600" />
             Chatbot
+            {answeredBy && (
+              <span className="ml-auto text-xs font-normal text-muted-foreground" title={answeredBy.providerId}>
+                {answeredBy.model}
+              </span>
+            )}
+            {usage && (
+              <span
+                className={cn(
+                  "rounded-full bg-emerald-50 px-2 py-0.5 text-xs font-normal text-emerald-700",
+                  !answeredBy && "ml-auto",
+                )}
+                title={interpolate(t.ui.usageTitle, { input: usage.promptTokens, output: usage.outputTokens })}
+              >
+                {formatTokens(usage.totalTokens)} · {formatCost(usage.costUsd)} · {formatDuration(usage.durationMs)}
+              </span>
+            )}
           </CardTitle>
         </CardHeader>
         <CardContent className="pt-0">
-          <div className="prose prose-sm max-w-none whitespace-pre-wrap leading-relaxed">
-            <div dangerouslySetInnerHTML={{ __html: convertToHtml(gemini) }} />
-          </div>
-          <div className="mt-4 flex justify-end gap-2">
-            <Button variant="outline" size="sm" onClick={() => handleDownloadDocx("Chatbot", gemini)}>
-              <Download className="mr-2 h-4 w-4" />
-              {"Xuất dữ liệu"}
-            </Button>
+          <div className="prose prose-sm max-w-none text-sm leading-relaxed">
+            <AnswerText
+              text={streaming ? withoutChartBlocks(gemini) : gemini}
+              references={references}
+              format={format}
+            />
+            {streaming && <span className="ml-0.5 inline-block h-4 w-1.5 animate-pulse bg-emerald-600 align-middle" />}
           </div>
+          {!streaming && charts?.map((chart, index) => <AnswerChart key={index} chart={chart} />)}
+          {!streaming && (
+            <div className="mt-4 flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => handleDownloadDocx("Chatbot", gemini)}>
+                <Download className="mr-2 h-4 w-4" />
+                {t.ui.exportData}
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -751,6 +1541,7 @@ function FileChip({
   attachment: Attached
   onRemove: () => void
 }) {
+  const t = useMessages()
   const getFileTypeIcon = (content?: FileContent) => {
     if (!content) return <Paperclip className="h-3.5 w-3.5" />
 
@@ -801,7 +1592,7 @@ function FileChip({
       {attachment.content && attachment.content.type !== "error" && !attachment.isProcessing && (
         <span className="text-green-500 text-xs">✓</span>
       )}
-      <button onClick={onRemove} className="ml-1 rounded p-0.5 hover:bg-white" aria-label="Xoá tệp">
+      <button onClick={onRemove} className="ml-1 rounded p-0.5 hover:bg-white" aria-label={t.ui.removeFile}>
         <X className="h-3.5 w-3.5" />
       </button>
     </span>
@@ -809,8 +1600,21 @@ function FileChip({
 }
 
 export default function Page() {
+  const language = useLanguageSettings()
+  return (
+    <LanguageContext.Provider value={language}>
+      <ChatPage />
+    </LanguageContext.Provider>
+  )
+}
+
+function ChatPage() {
+  // Language
+  const { locale, setLocale, autoLanguage, setAutoLanguage, t } = useLanguage()
+
   // Categories
-  const { categories, activeCategoryId, setActiveCategoryId, createCategory } = useCategories()
+  const historyReady = useLegacyImport()
+  const { categories, activeCategoryId, setActiveCategoryId, createCategory } = useCategories(historyReady)
 
   // Sessions
   const {
@@ -823,18 +1627,22 @@ export default function Page() {
     renameSession,
     addTurn,
     clearActiveSession,
-  } = useChatSessions(activeCategoryId || "quan-ly-du-an")
+  } = useChatSessions(activeCategoryId || "quan-ly-du-an", historyReady, t)
 
   // Input state
   const [deepSearch, setDeepSearch] = useState(false)
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>("text")
   const [input, setInput] = useState("")
   const [inputEnter, setInputEnter] = useState("")
   const [filter, setFilter] = useState("")
   const [isLoading, setIsLoading] = useState(false)
+  const [streamingText, setStreamingText] = useState("")
+  const [progressLog, setProgressLog] = useState<WorkflowProgress[]>([])
   const [attachments, setAttachments] = useState<Attached[]>([])
   const [messages, setMessages] = useState<any[]>([])
   const [selectedModel, setSelectedModel] = useState<Model>("gemini")
   const [selectedWorkflow, setSelectedWorkflow] = useState<Workflow>("perplexity-to-gemini")
+  const [workflows, setWorkflows] = useState<WorkflowOption[]>([])
   const [fileContents, setFileContents] = useState<FileContent[]>([])
   const fileInputRef = useRef<HTMLInputElement | null>(null)
   const endRef = useRef<HTMLDivElement | null>(null)
@@ -843,6 +1651,14 @@ export default function Page() {
   // Mobile sidebar open
   const [mobileOpen, setMobileOpen] = useState(false)
 
+  // Load the workflows the server knows about, labelled in the UI language
+  useEffect(() => {
+    fetch(`/api/workflows?locale=${locale}`)
+      .then((res) => (res.ok ? res.json() : { workflows: [] }))
+      .then((data) => setWorkflows(workflowOptionSchema.array().catch([]).parse(data.workflows)))
+      .catch((error) => console.error("Failed to load workflows:", error))
+  }, [locale])
+
   // auto-resize textarea
   useEffect(() => {
     const ta = taRef.current
@@ -853,7 +1669,7 @@ export default function Page() {
 
   useEffect(() => {
     endRef.current?.scrollIntoView({ behavior: "smooth" })
-  }, [active?.turns.length, isLoading])
+  }, [active?.turns.length, isLoading, streamingText, progressLog.length])
 
   const filteredSessions = useMemo(() => {
     const byCategory = sessions.filter((s) => s.categoryId === activeCategoryId)
@@ -876,7 +1692,7 @@ export default function Page() {
       })
 
       if (file.size > MAX_FILE_SIZE) {
-        errors.push(`${file.name}: Kích thước quá lớn (tối đa 25MB)`)
+        errors.push(interpolate(t.ui.fileTooLarge, { name: file.name }))
         return
       }
 
@@ -885,7 +1701,7 @@ export default function Page() {
         SUPPORTED_FILE_TYPES.includes(file.type) || file.name.match(/\.(pdf|docx?|xlsx?|xlsm|pptx?|csv|txt|md|json)$/i)
 
       if (!isSupported) {
-        errors.push(`${file.name}: Định dạng không hỗ trợ`)
+        errors.push(interpolate(t.ui.fileUnsupported, { name: file.name }))
         return
       }
 
@@ -893,7 +1709,7 @@ export default function Page() {
     })
 
     if (errors.length > 0) {
-      alert(`Một số file không thể tải lên:\n${errors.join("\n")}`)
+      alert(interpolate(t.ui.filesRejected, { errors: errors.join("\n") }))
     }
 
     if (validFiles.length > 0) {
@@ -903,7 +1719,10 @@ export default function Page() {
       for (const attachment of validFiles) {
         try {
           console.log("Starting to process file:", attachment.file.name)
-          const content = await processFile(attachment.file)
+          // images go inline with the message; documents are uploaded and read on the server
+          const content = isImageFile(attachment.file)
+            ? await processFile(attachment.file)
+            : attachmentContent((await uploadAttachments([attachment.file]))[0])
           console.log("File processed successfully:", {
             fileName: attachment.file.name,
             contentType: content.type,
@@ -923,7 +1742,9 @@ export default function Page() {
                     ...a,
                     content: {
                       type: "error",
-                      content: `Lỗi xử lý file: ${error instanceof Error ? error.message : "Unknown error"}`,
+                      content: interpolate(t.ui.fileProcessingError, {
+                        error: error instanceof Error ? error.message : t.ui.unknownError,
+                      }),
                     },
                     isProcessing: false,
                   }
@@ -953,6 +1774,7 @@ export default function Page() {
           conversationHistory.push({
             role: "user",
             content: turn.user.content,
+            ...(turn.rewrittenPrompt ? { rewrittenPrompt: turn.rewrittenPrompt } : {}),
           })
 
           // Add assistant response based on selected model
@@ -978,23 +1800,24 @@ export default function Page() {
         deepSearch,
         conversationHistoryLength: conversationHistory.length,
         totalMessagesCount: currentMessages.length,
-        workflowDescription:
-          selectedWorkflow === "chatgpt-to-gemini"
-            ? "ChatGPT will generate prompt for Gemini"
-            : selectedWorkflow === "perplexity-to-gemini"
-              ? "Perplexity search then Gemini response"
-              : selectedWorkflow === "perplexity-chatgpt-gemini"
-                ? "Perplexity search, then ChatGPT refines, then Gemini responds"
-                : "Direct Gemini processing",
+        workflowDescription: workflows.find((wf) => wf.id === selectedWorkflow)?.label ?? selectedWorkflow,
       })
 
+      setStreamingText("")
+      setProgressLog([])
       const response = await callDirectAPI(
         selectedModel,
         currentMessages, // Now includes full conversation history
-        false,
+        true,
         fileContents,
         selectedWorkflow,
         deepSearch,
+        outputFormat,
+        locale,
+        autoLanguage ? "auto" : locale,
+        activeId || undefined,
+        (text) => setStreamingText((prev) => prev + text),
+        (progress) => setProgressLog((prev) => [...prev, progress]),
       )
 
       const assistantMessage = { role: "assistant" as const, content: "" }
@@ -1004,19 +1827,18 @@ export default function Page() {
         assistantMessage.content =
           response.candidates?.[0]?.content?.parts?.[0]?.text ||
           response.choices?.[0]?.message?.content ||
-          "Không có phản hồi"
+          t.ui.noResponse
       } else {
-        assistantMessage.content = response.choices?.[0]?.message?.content || "Không có phản hồi"
+        assistantMessage.content = response.choices?.[0]?.message?.content || t.ui.noResponse
       }
 
       console.log("[v0] handleSend - Response processed:", {
         workflow: response.workflow,
         responseLength: assistantMessage.content.length,
-        hasWorkflowSteps: !!(response.step1 && response.step2),
+        hasWorkflowSteps: response.steps.length > 0,
         hasSearchResults: !!response.searchResults,
         searchResultsCount: response.searchResults?.results?.length || 0,
-        step1Preview: response.step1?.prompt?.substring(0, 100) + "..." || "No step 1",
-        step2Preview: response.step2?.content?.substring(0, 100) + "..." || "No step 2",
+        steps: response.steps.map((step) => `${step.index}. ${step.label} (${step.durationMs}ms)`),
       })
 
       // Store the response based on selected model
@@ -1026,8 +1848,14 @@ export default function Page() {
         chatgpt: selectedModel === "chatgpt" ? assistantMessage : { role: "assistant" as const, content: "" },
         gemini: selectedModel === "gemini" ? assistantMessage : { role: "assistant" as const, content: "" },
         workflow: response.workflow,
-        workflowSteps: response.prompts ?? undefined,
+        workflowSteps: response.steps,
         searchResults: response.searchResults,
+        answeredBy: response.answeredBy,
+        usage: response.usageSummary,
+        format: response.format,
+        templates: response.templates,
+        rewrittenPrompt: response.rewrittenPrompt,
+        charts: response.charts,
         // response.step1 && response.step2
         //   ? {
         //       step1: response.step1,
@@ -1036,7 +1864,7 @@ export default function Page() {
         //   : undefined,
       }
 
-      addTurn(activeId || "", turnData)
+      addTurn(activeId || "", turnData, response.summary)
 
       // Clear input and attachments
       // setInput("")
@@ -1046,16 +1874,16 @@ export default function Page() {
     } catch (error) {
       console.error("[v0] handleSend error:", error)
 
-      const errorMessage = error instanceof Error ? error.message : "Đã xảy ra lỗi không xác định"
+      const errorMessage = error instanceof Error ? error.message : t.ui.unknownError
 
       // Show user-friendly error messages
       let displayError = errorMessage
       if (errorMessage.includes("quota")) {
-        displayError = "Đã vượt quá giới hạn API. Vui lòng thử lại sau hoặc chuyển sang model khác."
+        displayError = t.ui.quotaError
       } else if (errorMessage.includes("key")) {
-        displayError = "Lỗi xác thực API. Vui lòng kiểm tra cấu hình."
+        displayError = t.ui.authError
       } else if (errorMessage.includes("network")) {
-        displayError = "Lỗi kết nối mạng. Vui lòng thử lại."
+        displayError = t.ui.networkError
       }
 
       const errorTurn = {
@@ -1064,7 +1892,7 @@ export default function Page() {
         chatgpt: { role: "assistant" as const, content: "" },
         gemini: {
           role: "assistant" as const,
-          content: `❌ Lỗi: ${displayError}`,
+          content: interpolate(t.ui.errorPrefix, { error: displayError }),
         },
       }
 
@@ -1075,6 +1903,7 @@ export default function Page() {
       setMessages([])
     } finally {
       setIsLoading(false)
+      setStreamingText("")
     }
   }
 
@@ -1096,7 +1925,7 @@ export default function Page() {
             variant="default"
           >
             <Plus className="mr-2 h-4 w-4" />
-            Đoạn chat mới
+            {t.ui.newChat}
           </Button>
         </div>
 
@@ -1104,7 +1933,7 @@ export default function Page() {
           <div className="relative">
             <Search className="pointer-events-none absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
             <Input
-              placeholder="Tìm kiếm đoạn chat…"
+              placeholder={t.ui.searchChats}
               className="pl-8"
               value={filter}
               onChange={(e) => setFilter(e.target.value)}
@@ -1116,14 +1945,14 @@ export default function Page() {
               size="sm"
               className="w-full justify-start"
               onClick={() => {
-                const name = prompt("Tên chủ đề mới:")
+                const name = prompt(t.ui.newCategoryPrompt)
                 if (name && name.trim()) {
                   createCategory(name.trim())
                 }
               }}
             >
               <Plus className="mr-2 h-4 w-4" />
-              Tạo chủ đề
+              {t.ui.newCategory}
             </Button>
           </div>
         </div>
@@ -1151,14 +1980,16 @@ export default function Page() {
             )
           })}
           {categories.length === 0 && (
-            <div className="px-3 py-6 text-sm text-muted-foreground">Chưa có chủ đề. Hãy tạo mới.</div>
+            <div className="px-3 py-6 text-sm text-muted-foreground">{t.ui.noCategories}</div>
           )}
         </div>
 
+        <CategoryDocuments categoryId={activeCategoryId} />
+
         {/* History title */}
         <div className="mt-4 flex items-center gap-2 px-2 text-xs text-muted-foreground">
           <History className="h-3.5 w-3.5" />
-          Đoạn chat
+          {t.ui.chats}
         </div>
 
         {/* Chats list by category */}
@@ -1189,18 +2020,18 @@ export default function Page() {
                     isActive && "bg-emerald-100/70 hover:bg-emerald-100",
                   )}
                 >
-                  <span className="line-clamp-1">{s.title || "Cuộc trò chuyện"}</span>
+                  <span className="line-clamp-1">{s.title || t.ui.untitledSession}</span>
 
                   <span className="ml-2 flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
                     <button
                       type="button"
-                      aria-label="Đổi tên"
+                      aria-label={t.ui.rename}
                       className="rounded px-1 text-xs text-muted-foreground hover:text-foreground"
                       onClick={(e) => {
                         e.stopPropagation()
-                        const name = prompt("Đặt tên cuộc trò chuyện:", s.title)
+                        const name = prompt(t.ui.renamePrompt, s.title)
                         if (name !== null) {
-                          const title = name.trim() || "Cuộc trò chuyện"
+                          const title = name.trim() || t.ui.untitledSession
                           renameSession(s.id, title)
                         }
                       }}
@@ -1210,11 +2041,11 @@ export default function Page() {
 
                     <button
                       type="button"
-                      aria-label="Xoá"
+                      aria-label={t.ui.delete}
                       className="rounded p-1 text-muted-foreground hover:bg-rose-50 hover:text-rose-600"
                       onClick={(e) => {
                         e.stopPropagation()
-                        const ok = confirm("Xoá đoạn chat này?")
+                        const ok = confirm(t.ui.deleteConfirm)
                         if (ok) deleteSession(s.id)
                       }}
                     >
@@ -1227,7 +2058,7 @@ export default function Page() {
 
             {filteredSessions.length === 0 && (
               <div className="px-3 py-8 text-center text-sm text-muted-foreground">
-                Không có đoạn chat trong chủ đề này
+                {t.ui.noChatsInCategory}
               </div>
             )}
           </div>
@@ -1256,7 +2087,7 @@ export default function Page() {
               <SheetTrigger asChild>
                 <Button variant="ghost" size="icon" className="md:hidden">
                   <Menu className="h-5 w-5" />
-                  <span className="sr-only">Mở menu</span>
+                  <span className="sr-only">{t.ui.openMenu}</span>
                 </Button>
               </SheetTrigger>
               <SheetContent side="left" className="w-[86vw] p-0">
@@ -1276,18 +2107,51 @@ export default function Page() {
               <Building2 className="h-4 w-4 text-emerald-600" />
               <span className="text-xs font-semibold">ORS Corp</span>
             </div>
-            <h1 className="line-clamp-1 text-sm font-semibold leading-tight">{active?.title || "Cuộc trò chuyện"}</h1>
+            <h1 className="line-clamp-1 text-sm font-semibold leading-tight">{active?.title || t.ui.untitledSession}</h1>
+            {!!active?.totalTokens && (
+              <span className="hidden shrink-0 text-xs text-muted-foreground sm:inline" title={t.ui.sessionTotal}>
+                {formatTokens(active.totalTokens)} · {formatCost(active.costUsd ?? 0)}
+              </span>
+            )}
+            {active?.summary && (
+              <span
+                className="hidden shrink-0 cursor-help rounded-full bg-gray-100 px-2 py-0.5 text-xs text-muted-foreground lg:inline"
+                title={active.summary.text}
+              >
+                {interpolate(t.ui.summarizedTurns, { count: active.summary.turns })}
+              </span>
+            )}
           </div>
 
-          {/* Only delete button remains */}
+          {/* Language switcher and delete button */}
           <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" aria-label={t.ui.language}>
+                  <Languages className="h-4 w-4 sm:mr-1" />
+                  <span className="hidden text-xs uppercase sm:inline">{locale}</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-44">
+                <DropdownMenuLabel>{t.ui.language}</DropdownMenuLabel>
+                {LOCALES.map((option) => (
+                  <DropdownMenuCheckboxItem
+                    key={option}
+                    checked={locale === option}
+                    onCheckedChange={() => setLocale(option)}
+                  >
+                    {getMessages(option).languageName}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button
               variant="outline"
               size="icon"
               className="md:hidden bg-transparent"
               onClick={() => active && clearActiveSession(active.id)}
               disabled={!active || (active?.turns.length ?? 0) === 0}
-              aria-label="Xoá hội thoại"
+              aria-label={t.ui.clearConversation}
             >
               <Trash2 className="h-4 w-4" />
             </Button>
@@ -1299,7 +2163,7 @@ export default function Page() {
               className="hidden md:inline-flex"
             >
               <Trash2 className="mr-2 h-4 w-4" />
-              Xoá hội thoại
+              {t.ui.clearConversation}
             </Button>
           </div>
         </div>
@@ -1316,10 +2180,10 @@ export default function Page() {
                   <div className="mx-auto flex h-10 w-10 items-center justify-center rounded-full bg-emerald-100 text-emerald-700 sm:h-12 sm:w-12">
                     <SplitSquareVertical className="h-5 w-5 sm:h-6 sm:w-6" />
                   </div>
-                  <h2 className="mt-3 text-base font-semibold sm:mt-4 sm:text-lg">Bắt đầu cuộc trò chuyện</h2>
-                  <p className="mt-1 text-xs text-muted-foreground sm:text-sm">Gõ câu hỏi bên dưới để nhận kết quả.</p>
+                  <h2 className="mt-3 text-base font-semibold sm:mt-4 sm:text-lg">{t.ui.emptyTitle}</h2>
+                  <p className="mt-1 text-xs text-muted-foreground sm:text-sm">{t.ui.emptyHint}</p>
                   <div className="mt-4 text-xs text-muted-foreground">
-                    <p>Hỗ trợ: ảnh và tệp</p>
+                    <p>{t.ui.emptySupports}</p>
                   </div>
                 </div>
               ) : (
@@ -1331,6 +2195,11 @@ export default function Page() {
                       gemini={t.gemini.content}
                       workflowSteps={t.workflowSteps}
                       searchResults={t.searchResults}
+                      answeredBy={t.answeredBy}
+                      usage={t.usage}
+                      format={t.format}
+                      templates={t.templates}
+                      charts={t.charts}
                     />
                   </div>
                 ))
@@ -1339,23 +2208,47 @@ export default function Page() {
               {isLoading && (
                 <div className="space-y-3 opacity-80">
                   <MessageBubble role="user" content={input || inputEnter || "..."} />
-                  <div className="grid grid-cols-1 gap-3 sm:gap-4">
-                    <Card className="animate-pulse mx-1 sm:mx-0">
-                      <CardHeader className="pb-2">
-                        <CardTitle className="flex items-center gap-2 text-base">
-                          <SplitSquareVertical className="h-4 w-4 text-emerald-600" />
-                          Loading...
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="space-y-2">
-                          <div className="h-3 w-3/4 rounded bg-muted" />
-                          <div className="h-3 w-2/3 rounded bg-muted" />
-                          <div className="h-3 w-1/2 rounded bg-muted" />
-                        </div>
-                      </CardContent>
-                    </Card>
-                  </div>
+                  {streamingText ? (
+                    <DualAnswer chatgpt="" gemini={streamingText} format={outputFormat} streaming />
+                  ) : (
+                    <div className="grid grid-cols-1 gap-3 sm:gap-4">
+                      <Card className={cn("mx-1 sm:mx-0", progressLog.length === 0 && "animate-pulse")}>
+                        <CardHeader className="pb-2">
+                          <CardTitle className="flex items-center gap-2 text-base">
+                            <SplitSquareVertical className="h-4 w-4 text-emerald-600" />
+                            {t.ui.loading}
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                          {progressLog.length > 0 ? (
+                            <ul className="space-y-1.5 text-sm text-muted-foreground">
+                              {progressLog.map((p, i) => (
+                                <li key={i} className="flex items-start gap-2">
+                                  {i === progressLog.length - 1 ? (
+                                    <Loader2 className="mt-0.5 h-3.5 w-3.5 shrink-0 animate-spin text-emerald-600" />
+                                  ) : (
+                                    <Check className="mt-0.5 h-3.5 w-3.5 shrink-0 text-emerald-600" />
+                                  )}
+                                  <span>
+                                    {p.message}
+                                    {p.queries && p.queries.length > 0 && (
+                                      <span className="block text-xs text-gray-400">{p.queries.join(" · ")}</span>
+                                    )}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <div className="space-y-2">
+                              <div className="h-3 w-3/4 rounded bg-muted" />
+                              <div className="h-3 w-2/3 rounded bg-muted" />
+                              <div className="h-3 w-1/2 rounded bg-muted" />
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    </div>
+                  )}
                 </div>
               )}
               <div ref={endRef} />
@@ -1380,59 +2273,50 @@ export default function Page() {
                       className="grid h-10 w-10 place-items-center rounded-full bg-muted p-0 text-foreground hover:bg-muted/80"
                     >
                       <Plus className="h-4 w-4" />
-                      <span className="sr-only">{"Mở menu hành động"}</span>
+                      <span className="sr-only">{t.ui.openActions}</span>
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="start" side="top" className="w-56">
-                    <DropdownMenuLabel>Tuỳ chọn</DropdownMenuLabel>
+                    <DropdownMenuLabel>{t.ui.options}</DropdownMenuLabel>
                     <DropdownMenuCheckboxItem checked={deepSearch} onCheckedChange={(v) => setDeepSearch(!!v)}>
                       <Sparkles className="mr-2 h-4 w-4 text-emerald-600" />
-                      Nghiên cứu sâu
-                    </DropdownMenuCheckboxItem>
-                    <DropdownMenuSeparator />
-                    <DropdownMenuLabel>Quy trình xử lý</DropdownMenuLabel>
-                    <DropdownMenuCheckboxItem
-                      checked={selectedWorkflow === "single"}
-                      onCheckedChange={() => setSelectedWorkflow("single")}
-                    >
-                      <Bot className="mr-2 h-4 w-4" />
-                      Trực tiếp (Gemini)
+                      {t.ui.deepResearch}
                     </DropdownMenuCheckboxItem>
-                    <DropdownMenuCheckboxItem
-                      checked={selectedWorkflow === "chatgpt-to-gemini"}
-                      onCheckedChange={() => setSelectedWorkflow("chatgpt-to-gemini")}
-                    >
-                      <FlaskConical className="mr-2 h-4 w-4 text-blue-600" />
-                      ChatGPT → Gemini
-                      {selectedWorkflow === "chatgpt-to-gemini" && (
-                        <span className="ml-2 text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded">Đang hoạt động</span>
-                      )}
-                    </DropdownMenuCheckboxItem>
-                    <DropdownMenuCheckboxItem
-                      checked={selectedWorkflow === "perplexity-to-gemini"}
-                      onCheckedChange={() => setSelectedWorkflow("perplexity-to-gemini")}
-                    >
-                      <Zap className="mr-2 h-4 w-4 text-purple-600" />
-                      Perplexity → Gemini
-                      {selectedWorkflow === "perplexity-to-gemini" && (
-                        <span className="ml-2 text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded">
-                          Đang hoạt động
-                        </span>
-                      )}
-                    </DropdownMenuCheckboxItem>
-
-                    <DropdownMenuCheckboxItem
-                      checked={selectedWorkflow === "perplexity-chatgpt-gemini"}
-                      onCheckedChange={() => setSelectedWorkflow("perplexity-chatgpt-gemini")}
-                    >
-                      <Lightbulb className="mr-2 h-4 w-4 text-purple-600" />
-                      Perplexity → ChatGPT → Gemini
-                      {selectedWorkflow === "perplexity-chatgpt-gemini" && (
-                        <span className="ml-2 text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded">
-                          Đang hoạt động
-                        </span>
-                      )}
+                    <DropdownMenuCheckboxItem checked={autoLanguage} onCheckedChange={(v) => setAutoLanguage(!!v)}>
+                      <Languages className="mr-2 h-4 w-4 text-emerald-600" />
+                      {t.ui.answerInQuestionLanguage}
                     </DropdownMenuCheckboxItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>{t.ui.answerFormat}</DropdownMenuLabel>
+                    {OUTPUT_FORMATS.map((format) => (
+                      <DropdownMenuCheckboxItem
+                        key={format}
+                        checked={outputFormat === format}
+                        onCheckedChange={() => setOutputFormat(format)}
+                      >
+                        {t.ui.formats[format]}
+                      </DropdownMenuCheckboxItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>{t.ui.workflow}</DropdownMenuLabel>
+                    {workflows.map((wf) => {
+                      const Icon = WORKFLOW_ICONS[wf.icon ?? ""] ?? Bot
+                      const color = wf.color ? WORKFLOW_COLORS[wf.color] : undefined
+                      return (
+                        <DropdownMenuCheckboxItem
+                          key={wf.id}
+                          checked={selectedWorkflow === wf.id}
+                          onCheckedChange={() => setSelectedWorkflow(wf.id)}
+                          title={wf.description}
+                        >
+                          <Icon className={cn("mr-2 h-4 w-4", color?.icon)} />
+                          {wf.label}
+                          {selectedWorkflow === wf.id && color && (
+                            <span className={cn("ml-2 text-xs px-2 py-1 rounded", color.badge)}>{t.ui.activeWorkflow}</span>
+                          )}
+                        </DropdownMenuCheckboxItem>
+                      )
+                    })}
                   </DropdownMenuContent>
                 </DropdownMenu>
 
@@ -1442,11 +2326,36 @@ export default function Page() {
                     {deepSearch && (
                       <span className="inline-flex items-center gap-1 rounded-full border bg-muted px-2 py-1 text-xs">
                         <Sparkles className="h-3.5 w-3.5 text-emerald-600" />
-                        Nghiên cứu sâu
+                        {t.ui.deepResearch}
                         <button
                           className="ml-1 rounded p-0.5 hover:bg-white"
                           onClick={() => setDeepSearch(false)}
-                          aria-label="Tắt nghiên cứu sâu"
+                          aria-label={t.ui.disableDeepResearch}
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </span>
+                    )}
+                    {autoLanguage && (
+                      <span className="inline-flex items-center gap-1 rounded-full border bg-muted px-2 py-1 text-xs">
+                        <Languages className="h-3.5 w-3.5 text-emerald-600" />
+                        {t.ui.answerInQuestionLanguage}
+                        <button
+                          className="ml-1 rounded p-0.5 hover:bg-white"
+                          onClick={() => setAutoLanguage(false)}
+                          aria-label={t.ui.answerInUiLanguage}
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </span>
+                    )}
+                    {outputFormat !== "text" && (
+                      <span className="inline-flex items-center gap-1 rounded-full border bg-muted px-2 py-1 text-xs">
+                        {t.ui.formats[outputFormat]}
+                        <button
+                          className="ml-1 rounded p-0.5 hover:bg-white"
+                          onClick={() => setOutputFormat("text")}
+                          aria-label={t.ui.plainTextAnswer}
                         >
                           <X className="h-3.5 w-3.5" />
                         </button>
@@ -1470,7 +2379,7 @@ export default function Page() {
                         setInput(e.target.value)
                         setInputEnter(e.target.value)
                       }}
-                      placeholder="Nhập câu hỏi của bạn…"
+                      placeholder={t.ui.inputPlaceholder}
                       rows={1}
                       className="min-h-[40px] max-h-[100px] w-full resize-none bg-transparent px-2 py-2 text-sm focus:outline-none "
                       onKeyDown={(e) => {
@@ -1496,7 +2405,7 @@ export default function Page() {
                         variant="ghost"
                         size="icon"
                         onClick={() => fileInputRef.current?.click()}
-                        aria-label="Đính kèm tệp"
+                        aria-label={t.ui.attachFile}
                       >
                         <Paperclip className="h-5 w-5" />
                       </Button>
@@ -1507,7 +2416,7 @@ export default function Page() {
                           checked={deepSearch}
                           onChange={(e) => setDeepSearch(e.target.checked)}
                           className="h-4 w-4 accent-emerald-600"
-                          aria-label="Bật tắt DeepSearch"
+                          aria-label={t.ui.toggleDeepSearch}
                         />
                       </div>
                       <Button
@@ -1515,7 +2424,7 @@ export default function Page() {
                         disabled={(!input.trim() && attachments.length === 0) || !active || isLoading}
                       >
                         <Send className="mr-2 h-4 w-4" />
-                        <span className="hidden sm:inline">Gửi</span>
+                        <span className="hidden sm:inline">{t.ui.send}</span>
                       </Button>
                     </div>
                   </div>
@@ -0,0 +1,31 @@
+import { mkdir, readFile, rm, unlink, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import type { CacheEntry, CacheStore } from "./types"
+
+// One JSON file per key; keys are already hashes so they are safe file names
+export function createFileStore(directory: string): CacheStore {
+  const pathFor = (key: string) => join(directory, `${key}.json`)
+  return {
+    async get<T>(key: string) {
+      try {
+        const entry = JSON.parse(await readFile(pathFor(key), "utf-8")) as CacheEntry<T>
+        if (entry.expiresAt > Date.now()) return entry
+        await unlink(pathFor(key)).catch(() => {})
+      } catch {
+        // missing or unreadable entry counts as a miss
+      }
+      return undefined
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      await mkdir(directory, { recursive: true })
+      const entry: CacheEntry<T> = { value, expiresAt: Date.now() + ttlMs }
+      await writeFile(pathFor(key), JSON.stringify(entry), "utf-8")
+    },
+    async delete(key: string) {
+      await unlink(pathFor(key)).catch(() => {})
+    },
+    async clear() {
+      await rm(directory, { recursive: true, force: true })
+    },
+  }
+}
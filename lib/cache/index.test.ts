@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { normalizeQuestion, setCacheStore, withCache } from "./index"
+import { createMemoryStore } from "./memory"
+
+describe("withCache", () => {
+  beforeEach(() => setCacheStore(createMemoryStore()))
+
+  it("computes once and serves the stored value after that", async () => {
+    const compute = vi.fn(async () => "answer")
+    expect(await withCache("answer", { question: "a" }, compute)).toEqual({ value: "answer", cached: false })
+    expect(await withCache("answer", { question: "a" }, compute)).toEqual({ value: "answer", cached: true })
+    expect(compute).toHaveBeenCalledTimes(1)
+  })
+
+  it("keys entries by kind and parts", async () => {
+    await withCache("answer", { question: "a" }, async () => "first")
+    expect((await withCache("answer", { question: "b" }, async () => "second")).cached).toBe(false)
+    expect((await withCache("search", { question: "a" }, async () => "third")).cached).toBe(false)
+  })
+
+  it("does not store values the caller turns down", async () => {
+    const compute = vi.fn(async () => ({ text: "It is 10:00", volatile: true }))
+    const storable = (value: { volatile: boolean }) => !value.volatile
+    await withCache("answer", { question: "time" }, compute, storable)
+    expect((await withCache("answer", { question: "time" }, compute, storable)).cached).toBe(false)
+    expect(compute).toHaveBeenCalledTimes(2)
+  })
+
+  it("computes without a store", async () => {
+    setCacheStore(null)
+    const compute = vi.fn(async () => "answer")
+    await withCache("answer", { question: "a" }, compute)
+    await withCache("answer", { question: "a" }, compute)
+    expect(compute).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe("normalizeQuestion", () => {
+  it("ignores case, spacing and trailing punctuation", () => {
+    expect(normalizeQuestion("Xin chào,  Bạn khỏe không?")).toBe(normalizeQuestion("xin chào bạn khỏe không"))
+  })
+})
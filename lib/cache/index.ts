@@ -0,0 +1,90 @@
+import { createHash } from "node:crypto"
+import { join } from "node:path"
+import { envNumber } from "@/lib/env"
+import { createFileStore } from "./file"
+import { createMemoryStore } from "./memory"
+import type { CacheStore } from "./types"
+
+export type CacheKind = "search" | "rewrite" | "answer"
+
+const MINUTE = 60 * 1000
+
+// Defaults in minutes, overridable with CACHE_TTL_SEARCH / CACHE_TTL_REWRITE / CACHE_TTL_ANSWER
+const DEFAULT_TTL_MINUTES: Record<CacheKind, number> = {
+  search: 60,
+  rewrite: 24 * 60,
+  answer: 60,
+}
+
+let store: CacheStore | null | undefined
+
+// CACHE_STORE picks the backend: "memory" (default), "file", "sqlite" or "off". The SQLite store is
+// imported lazily so the native driver is only loaded when it is actually used.
+async function getStore() {
+  if (store !== undefined) return store
+  const kind = process.env.CACHE_STORE?.trim().toLowerCase() || "memory"
+  try {
+    if (kind === "off") store = null
+    else if (kind === "file") store = createFileStore(process.env.CACHE_DIR || join(process.cwd(), "data", "cache"))
+    else if (kind === "sqlite") store = (await import("./sqlite")).createSqliteStore()
+    else store = createMemoryStore()
+  } catch (error) {
+    console.error(`[cache] Could not open ${kind} store, using memory:`, error)
+    store = createMemoryStore()
+  }
+  return store
+}
+
+export function setCacheStore(next: CacheStore | null) {
+  store = next
+}
+
+function ttlFor(kind: CacheKind) {
+  return envNumber(`CACHE_TTL_${kind.toUpperCase()}`, DEFAULT_TTL_MINUTES[kind], 0) * MINUTE
+}
+
+// "Xin chào,  Bạn khỏe không?" and "xin chào bạn khỏe không" should hit the same entry
+export function normalizeQuestion(text: string) {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[?!.,;:…]+(\s|$)/g, "$1")
+    .trim()
+}
+
+export function cacheKey(kind: CacheKind, parts: Record<string, unknown>) {
+  return createHash("sha256")
+    .update(`${kind}:${JSON.stringify(parts)}`)
+    .digest("hex")
+}
+
+// Returns the cached value for the key or computes and stores it, unless `storable` turns the value down; a broken
+// store never fails the request
+export async function withCache<T>(
+  kind: CacheKind,
+  parts: Record<string, unknown>,
+  compute: () => Promise<T>,
+  storable: (value: T) => boolean = () => true,
+): Promise<{ value: T; cached: boolean }> {
+  const cache = await getStore()
+  const ttl = ttlFor(kind)
+  if (!cache || ttl === 0) return { value: await compute(), cached: false }
+  const key = cacheKey(kind, parts)
+  try {
+    const hit = await cache.get<T>(key)
+    if (hit) return { value: hit.value, cached: true }
+  } catch (error) {
+    console.error(`[cache] ${kind} lookup failed:`, error)
+  }
+  const value = await compute()
+  if (!storable(value)) return { value, cached: false }
+  try {
+    await cache.set(key, value, ttl)
+  } catch (error) {
+    console.error(`[cache] ${kind} write failed:`, error)
+  }
+  return { value, cached: false }
+}
+
+export type { CacheEntry, CacheStore } from "./types"
@@ -0,0 +1,33 @@
+import type { CacheEntry, CacheStore } from "./types"
+
+const MAX_ENTRIES = 500
+
+// Per-process store; entries are lost on restart and not shared between serverless instances
+export function createMemoryStore(maxEntries = MAX_ENTRIES): CacheStore {
+  const entries = new Map<string, CacheEntry>()
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return undefined
+      }
+      return entry as CacheEntry<T>
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      entries.delete(key)
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+      // Map keeps insertion order, so the first key is the oldest write
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+    async delete(key: string) {
+      entries.delete(key)
+    },
+    async clear() {
+      entries.clear()
+    },
+  }
+}
@@ -0,0 +1,40 @@
+import { getDb } from "@/lib/db"
+import type { CacheEntry, CacheStore } from "./types"
+
+export function createSqliteStore(): CacheStore {
+  const db = getDb()
+  db.exec(`CREATE TABLE IF NOT EXISTS cache_entries (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  )`)
+  const select = db.prepare("SELECT value, expires_at AS expiresAt FROM cache_entries WHERE key = ?")
+  const upsert = db.prepare(
+    "INSERT INTO cache_entries (key, value, expires_at) VALUES (?, ?, ?) " +
+      "ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at",
+  )
+  const remove = db.prepare("DELETE FROM cache_entries WHERE key = ?")
+  const purgeExpired = db.prepare("DELETE FROM cache_entries WHERE expires_at <= ?")
+  purgeExpired.run(Date.now())
+
+  return {
+    async get<T>(key: string) {
+      const row = select.get(key) as { value: string; expiresAt: number } | undefined
+      if (!row) return undefined
+      if (row.expiresAt <= Date.now()) {
+        remove.run(key)
+        return undefined
+      }
+      return { value: JSON.parse(row.value), expiresAt: row.expiresAt } as CacheEntry<T>
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      upsert.run(key, JSON.stringify(value), Date.now() + ttlMs)
+    },
+    async delete(key: string) {
+      remove.run(key)
+    },
+    async clear() {
+      db.exec("DELETE FROM cache_entries")
+    },
+  }
+}
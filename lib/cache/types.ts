@@ -0,0 +1,12 @@
+export type CacheEntry<T = unknown> = {
+  value: T
+  expiresAt: number
+}
+
+// Backing store for the response cache; values are JSON-serializable
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
+}
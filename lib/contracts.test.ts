@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+import {
+  categoryCreateRequestSchema,
+  categoryUpdateRequestSchema,
+  invalidRequestError,
+  legacyImportRequestSchema,
+  sessionCreateRequestSchema,
+  turnSaveRequestSchema,
+} from "./contracts"
+
+describe("request schemas", () => {
+  it("reject bodies that aren't objects", () => {
+    for (const schema of [categoryCreateRequestSchema, legacyImportRequestSchema, sessionCreateRequestSchema]) {
+      expect(schema.safeParse(undefined).success).toBe(false)
+      expect(schema.safeParse(null).success).toBe(false)
+    }
+  })
+
+  it("trim category ids and names and default the icon", () => {
+    expect(categoryCreateRequestSchema.parse({ id: " du-an ", name: " Dự án " })).toEqual({
+      id: "du-an",
+      name: "Dự án",
+      icon: "folder",
+    })
+    expect(categoryCreateRequestSchema.safeParse({ id: "du-an", name: "   " }).success).toBe(false)
+    expect(categoryUpdateRequestSchema.safeParse({ icon: 42 }).success).toBe(false)
+    expect(categoryUpdateRequestSchema.safeParse({ name: ["Dự án"] }).success).toBe(false)
+  })
+
+  it("need a category for every imported session", () => {
+    const session = { id: "s1", createdAt: 1, turns: [{ id: "t1", content: "xin chào" }] }
+    expect(legacyImportRequestSchema.safeParse({ sessions: [session] }).success).toBe(false)
+    expect(legacyImportRequestSchema.parse({ sessions: [{ ...session, categoryId: "du-an" }] })).toEqual({
+      categories: [],
+      sessions: [{ ...session, categoryId: "du-an" }],
+    })
+  })
+
+  it("keep every field of a saved turn", () => {
+    const turn = { id: "t1", user: { role: "user", content: "xin chào" } }
+    expect(turnSaveRequestSchema.parse({ turn })).toEqual({ turn })
+    expect(turnSaveRequestSchema.safeParse({ turn: { user: turn.user } }).success).toBe(false)
+  })
+})
+
+describe("invalidRequestError", () => {
+  it("lists each issue with its path", () => {
+    const parsed = sessionCreateRequestSchema.safeParse({ id: "s1" })
+    expect(parsed.success).toBe(false)
+    expect(invalidRequestError(parsed.error!)).toMatchObject({
+      errorType: "invalid_request",
+      issues: [{ path: "categoryId" }],
+    })
+    expect(invalidRequestError(sessionCreateRequestSchema.safeParse(null).error!).issues).toEqual([
+      { path: "(body)", message: "Expected object, received null" },
+    ])
+  })
+})
@@ -0,0 +1,329 @@
+import { z } from "zod"
+import { LOCALES } from "@/lib/i18n"
+import { providerIds } from "@/lib/providers/catalog"
+
+// Request and response shapes of the chat APIs. Imported by the route handlers and by the client,
+// so this module must stay free of server-only imports.
+
+// --- Requests ---
+
+// OpenAI-style parts from the browser plus the Gemini-style parts older clients sent
+export const messagePartSchema = z.union([
+  z.object({ type: z.literal("text"), text: z.string() }),
+  z.object({ type: z.literal("image_url"), image_url: z.object({ url: z.string().min(1) }) }),
+  z.object({ inlineData: z.object({ mimeType: z.string().min(1), data: z.string().min(1) }) }),
+  z.object({ fileData: z.object({ mimeType: z.string().min(1), fileUri: z.string().min(1) }) }),
+])
+
+export const chatMessageSchema = z.object({
+  role: z.enum(["user", "assistant", "model", "system"]),
+  content: z.union([z.string(), z.array(messagePartSchema)]),
+  // prompt an earlier response returned for this user turn, used instead of rewriting it again
+  rewrittenPrompt: z.string().optional(),
+})
+
+// Base64 data, or a URL for files already hosted somewhere
+export const fileAttachmentSchema = z.object({
+  name: z.string().default("file"),
+  type: z.string().min(1),
+  data: z.string().min(1),
+})
+
+const conversationSchema = z
+  .array(chatMessageSchema)
+  .min(1, "At least one message is required")
+  .refine((messages) => messages[messages.length - 1].role === "user", "The last message must come from the user")
+
+export const outputFormatSchema = z.enum(["text", "markdown", "json"])
+
+export const localeSchema = z.enum(LOCALES)
+
+export const directChatRequestSchema = z
+  .object({
+    messages: conversationSchema,
+    model: z.string().min(1),
+    stream: z.boolean().default(false),
+    files: z.array(fileAttachmentSchema).default([]),
+    // ids from /api/files; the stored files are sent to the model like `files`
+    attachments: z.array(z.string().min(1)).default([]),
+    workflow: z.string().min(1).default("single"),
+    deepSearch: z.boolean().default(false),
+    // id of a registered provider that can search
+    searchProvider: z
+      .string()
+      .min(1)
+      .refine(
+        (id) => providerIds("search").includes(id.trim()),
+        (id) => ({ message: `"${id}" is not a search provider; expected one of: ${providerIds("search").join(", ")}` }),
+      )
+      .optional(),
+    // false skips the answer cache
+    cache: z.boolean().default(true),
+    format: outputFormatSchema.default("text"),
+    // JSON schema the answer must follow when format is "json"
+    schema: z.record(z.unknown()).optional(),
+    // language of step labels and progress messages
+    locale: localeSchema.default("vi"),
+    // language of the answer; "auto" answers in the language of each question. Defaults to `locale`.
+    language: z.union([z.literal("auto"), localeSchema]).optional(),
+    // session the messages belong to; its stored summary stands in for turns that no longer fit the context
+    sessionId: z.string().min(1).optional(),
+  })
+  .refine((request) => !request.schema || request.format === "json", {
+    message: 'schema requires format "json"',
+    path: ["schema"],
+  })
+
+export const chatRequestSchema = z.object({
+  messages: conversationSchema,
+  model: z.string().min(1),
+  stream: z.boolean().default(false),
+  files: z.array(fileAttachmentSchema).default([]),
+})
+
+// Prompt template admin: saving a new version, rolling back to an earlier one, rendering a draft
+export const templateSaveRequestSchema = z.object({
+  locale: localeSchema,
+  text: z.string().min(1),
+  note: z.string().max(200).optional(),
+})
+
+export const templateRollbackRequestSchema = z.object({
+  locale: localeSchema,
+  version: z.number().int().min(0),
+  note: z.string().max(200).optional(),
+})
+
+export const templatePreviewRequestSchema = z.object({
+  text: z.string(),
+  vars: z.record(z.string()).default({}),
+})
+
+// Category knowledge base: adding documents, re-indexing some (or, without ids, all) of them
+export const documentUploadRequestSchema = z
+  .object({
+    files: z.array(fileAttachmentSchema).default([]),
+    // ids from /api/files
+    attachments: z.array(z.string().min(1)).default([]),
+  })
+  .refine((request) => request.files.length + request.attachments.length > 0, {
+    message: "At least one file is required",
+    path: ["files"],
+  })
+
+export const documentReindexRequestSchema = z.object({
+  ids: z.array(z.string().min(1)).optional(),
+})
+
+export const categoryCreateRequestSchema = z.object({
+  id: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  icon: z.string().min(1).default("folder"),
+})
+
+// a blank name leaves it as it is
+export const categoryUpdateRequestSchema = z.object({
+  name: z.string().optional(),
+  icon: z.string().min(1).optional(),
+})
+
+export const sessionCreateRequestSchema = z.object({
+  id: z.string().min(1),
+  categoryId: z.string().min(1),
+  title: z.string().optional(),
+  createdAt: z.number().optional(),
+})
+
+// blank values leave the field as it is
+export const sessionUpdateRequestSchema = z.object({
+  title: z.string().optional(),
+  categoryId: z.string().optional(),
+})
+
+// turns are stored as the client sends them; only the id is required
+const storedTurnSchema = z.object({ id: z.string().min(1) }).passthrough()
+
+export const turnSaveRequestSchema = z.object({
+  turn: storedTurnSchema,
+})
+
+// What older versions kept in localStorage, sent once by /api/import
+export const legacyImportRequestSchema = z.object({
+  categories: z
+    .array(z.object({ id: z.string().min(1), name: z.string().min(1), icon: z.string().default("folder") }))
+    .default([]),
+  sessions: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        title: z.string().optional(),
+        categoryId: z.string().min(1),
+        createdAt: z.number().optional(),
+        turns: z.array(storedTurnSchema).default([]),
+      }),
+    )
+    .default([]),
+})
+
+// --- Responses ---
+
+export const searchReferenceSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  content: z.string(),
+})
+
+export const searchResultsSchema = z.object({
+  answer: z.string(),
+  results: z.array(searchReferenceSchema),
+})
+
+export const tokenUsageSchema = z.object({
+  promptTokens: z.number(),
+  outputTokens: z.number(),
+  totalTokens: z.number(),
+})
+
+// Tokens, estimated USD cost and wall time of one answer, summed over its workflow steps
+export const usageSummarySchema = tokenUsageSchema.extend({
+  costUsd: z.number(),
+  durationMs: z.number(),
+})
+
+export const stepTraceSchema = z.object({
+  index: z.number(),
+  kind: z.enum(["context", "retrieve", "search", "research", "rewrite", "answer", "postprocess"]),
+  label: z.string(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  input: z.string().optional(),
+  output: z.string().optional(),
+  durationMs: z.number(),
+  usage: tokenUsageSchema.optional(),
+  costUsd: z.number().optional(),
+  details: z.record(z.unknown()).optional(),
+})
+
+// ChatGPT rewrites, kept for clients that show the generated prompt
+export const promptLogSchema = z.object({
+  input: z.object({ system: z.string(), user: z.string() }),
+  output: z.string(),
+})
+
+export const modelRouteSchema = z.object({ providerId: z.string(), model: z.string() })
+
+export const conversationSummarySchema = z.object({ text: z.string(), turns: z.number() })
+
+export const templateRefSchema = z.object({ name: z.string(), locale: localeSchema, version: z.number() })
+
+export const chartSpecSchema = z.object({
+  type: z.enum(["bar", "line", "pie"]),
+  title: z.string().optional(),
+  xKey: z.string(),
+  series: z.array(z.object({ key: z.string(), label: z.string().optional() })),
+  data: z.array(z.record(z.union([z.string(), z.number(), z.null()]))),
+})
+
+export const directChatResponseSchema = z
+  .object({
+    candidates: z.array(
+      z.object({
+        content: z.object({ parts: z.array(z.object({ text: z.string() })), role: z.literal("model") }),
+        finishReason: z.string(),
+      }),
+    ),
+    choices: z.array(z.object({ message: z.object({ role: z.literal("assistant"), content: z.string() }) })),
+    usageMetadata: z.unknown().optional(),
+    usageSummary: usageSummarySchema.optional(),
+    workflow: z.string(),
+    format: outputFormatSchema,
+    // language the answer was written in
+    language: localeSchema.optional(),
+    // prompt template versions the answer was written with
+    templates: z.array(templateRefSchema).optional(),
+    // the rewritten question, to send back as the message's `rewrittenPrompt` in later requests
+    rewrittenPrompt: z.string().optional(),
+    // the session's conversation summary, when this request updated it
+    summary: conversationSummarySchema.optional(),
+    // the parsed answer when format is "json" and the model returned valid JSON
+    data: z.unknown().optional(),
+    // charts the answer included, taken out of the text for the client to draw
+    charts: z.array(chartSpecSchema).optional(),
+    answeredBy: modelRouteSchema.optional(),
+    cached: z.boolean(),
+    steps: z.array(stepTraceSchema),
+    prompts: z.array(promptLogSchema).optional(),
+    searchResults: searchResultsSchema.optional(),
+    referencesText: z.string().optional(),
+  })
+  // step1, step2, ... repeat the entries of `steps` by position
+  .catchall(z.unknown())
+
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  errorType: z.string().optional(),
+  details: z.unknown().optional(),
+  fallbackSuggestion: z.string().optional(),
+  // field-level problems when errorType is "invalid_request"
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+})
+
+export const workflowProgressSchema = z.object({
+  step: z.number(),
+  label: z.string(),
+  message: z.string(),
+  round: z.number().optional(),
+  queries: z.array(z.string()).optional(),
+  sources: z.number().optional(),
+})
+
+// Events of /api/direct-chat when `stream: true`
+export const directChatEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("delta"), text: z.string() }),
+  workflowProgressSchema.extend({ type: z.literal("progress") }),
+  z.object({ type: z.literal("done"), response: directChatResponseSchema }),
+  apiErrorSchema.extend({ type: z.literal("error"), status: z.number() }),
+])
+
+export const workflowOptionSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  description: z.string().optional(),
+  icon: z.string().optional(),
+  color: z.string().optional(),
+})
+
+export type ChatMessagePayload = z.infer<typeof chatMessageSchema>
+export type FileAttachmentPayload = z.infer<typeof fileAttachmentSchema>
+export type OutputFormat = z.infer<typeof outputFormatSchema>
+export type AnswerLanguage = NonNullable<z.infer<typeof directChatRequestSchema>["language"]>
+export type DirectChatRequest = z.input<typeof directChatRequestSchema>
+export type ChatApiRequest = z.input<typeof chatRequestSchema>
+export type SearchReferencePayload = z.infer<typeof searchReferenceSchema>
+export type StepTracePayload = z.infer<typeof stepTraceSchema>
+export type UsageSummaryPayload = z.infer<typeof usageSummarySchema>
+export type TemplateRefPayload = z.infer<typeof templateRefSchema>
+export type ConversationSummaryPayload = z.infer<typeof conversationSummarySchema>
+export type ChartSpecPayload = z.infer<typeof chartSpecSchema>
+export type TemplateSaveRequest = z.input<typeof templateSaveRequestSchema>
+export type TemplateRollbackRequest = z.input<typeof templateRollbackRequestSchema>
+export type TemplatePreviewRequest = z.input<typeof templatePreviewRequestSchema>
+export type DocumentUploadRequest = z.input<typeof documentUploadRequestSchema>
+export type CategoryCreateRequest = z.input<typeof categoryCreateRequestSchema>
+export type SessionCreateRequest = z.input<typeof sessionCreateRequestSchema>
+export type TurnSaveRequest = z.input<typeof turnSaveRequestSchema>
+export type LegacyImportRequest = z.input<typeof legacyImportRequestSchema>
+export type DirectChatResponse = z.infer<typeof directChatResponseSchema>
+export type DirectChatEvent = z.infer<typeof directChatEventSchema>
+export type ApiError = z.infer<typeof apiErrorSchema>
+export type WorkflowProgressPayload = z.infer<typeof workflowProgressSchema>
+export type WorkflowOption = z.infer<typeof workflowOptionSchema>
+
+// Structured 400 body for a request that failed validation
+export function invalidRequestError(error: z.ZodError): ApiError {
+  return {
+    error: "Invalid request body",
+    errorType: "invalid_request",
+    issues: error.issues.map((issue) => ({ path: issue.path.join(".") || "(body)", message: issue.message })),
+  }
+}
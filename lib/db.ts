@@ -0,0 +1,22 @@
+import Database from "better-sqlite3"
+import { mkdirSync } from "node:fs"
+import { dirname, join } from "node:path"
+
+// One SQLite file for everything the server persists (cache, chat history, ...). Modules create their own
+// tables on first use with `CREATE TABLE IF NOT EXISTS`.
+let db: Database.Database | null = null
+
+export function getDatabasePath() {
+  return process.env.DATABASE_PATH?.trim() || join(process.cwd(), "data", "app.db")
+}
+
+export function getDb() {
+  if (!db) {
+    const path = getDatabasePath()
+    mkdirSync(dirname(path), { recursive: true })
+    db = new Database(path)
+    db.pragma("journal_mode = WAL")
+    db.pragma("foreign_keys = ON")
+  }
+  return db
+}
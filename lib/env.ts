@@ -0,0 +1,9 @@
+// Numeric settings from the environment. A variable that is unset, blank, not a number or below `min` gives the
+// fallback. `min` is 1, so a typo can't turn a limit or count into zero; settings where 0 means "off" (retries,
+// cache lifetimes) pass 0.
+export function envNumber(name: string, fallback: number, min = 1) {
+  const raw = process.env[name]?.trim()
+  if (!raw) return fallback
+  const value = Number(raw)
+  return Number.isFinite(value) && value >= min ? value : fallback
+}
@@ -0,0 +1,93 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { extractFileContent } from "./file-utils";
+
+const PPTX_TYPE =
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+const RELS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+function relationships(
+  entries: Array<{
+    id: string;
+    type: string;
+    target: string;
+    external?: boolean;
+  }>
+) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${entries
+    .map(
+      ({ id, type, target, external }) =>
+        `<Relationship Id="${id}" Type="${RELS}/${type}" Target="${target}"${
+          external ? ' TargetMode="External"' : ""
+        }/>`
+    )
+    .join("")}</Relationships>`;
+}
+
+function shape(type: string, text: string) {
+  return `<p:sp><p:nvSpPr><p:nvPr><p:ph type="${type}"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp>`;
+}
+
+// A deck whose relationships use absolute targets ("/ppt/slides/slide2.xml"), as some generators write them, with
+// the slides listed out of file-name order and an external hyperlink on the first slide
+async function absoluteTargetDeck() {
+  const zip = new JSZip();
+  zip.file(
+    "ppt/presentation.xml",
+    `<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId1"/></p:sldIdLst></p:presentation>`
+  );
+  zip.file(
+    "ppt/_rels/presentation.xml.rels",
+    relationships([
+      { id: "rId1", type: "slide", target: "/ppt/slides/slide1.xml" },
+      { id: "rId2", type: "slide", target: "/ppt/slides/slide2.xml" },
+    ])
+  );
+  zip.file(
+    "ppt/slides/slide2.xml",
+    `<p:sld>${shape("title", "Kế hoạch")}${shape("body", "Mở rộng thị trường")}</p:sld>`
+  );
+  zip.file(
+    "ppt/slides/_rels/slide2.xml.rels",
+    relationships([
+      {
+        id: "rId1",
+        type: "hyperlink",
+        target: "https://example.com/",
+        external: true,
+      },
+      {
+        id: "rId2",
+        type: "notesSlide",
+        target: "/ppt/notesSlides/notesSlide1.xml",
+      },
+    ])
+  );
+  zip.file(
+    "ppt/notesSlides/notesSlide1.xml",
+    `<p:notes>${shape("body", "Nhắc lại số liệu quý trước")}</p:notes>`
+  );
+  zip.file(
+    "ppt/slides/slide1.xml",
+    `<p:sld>${shape("title", "Tổng kết")}${shape("body", "Cảm ơn")}</p:sld>`
+  );
+  const data = await zip.generateAsync({ type: "arraybuffer" });
+  return new File([data], "deck.pptx", { type: PPTX_TYPE });
+}
+
+describe("extractFileContent for PowerPoint", () => {
+  it("follows absolute relationship targets from the package root", async () => {
+    const content = await extractFileContent(await absoluteTargetDeck());
+    expect(content.type).toBe("text");
+    expect(content.sections).toEqual([
+      { title: "Slide 1: Kế hoạch", text: "Mở rộng thị trường" },
+      {
+        title: "Slide 1: Kế hoạch (notes)",
+        text: "Nhắc lại số liệu quý trước",
+      },
+      { title: "Slide 2: Tổng kết", text: "Cảm ơn" },
+    ]);
+  });
+});
@@ -1,6 +1,44 @@
 import * as XLSX from "xlsx";
 import Papa from "papaparse";
 import mammoth from "mammoth";
+import JSZip from "jszip";
+import { DEFAULT_LOCALE, getMessages, interpolate } from "@/lib/i18n";
+
+// A part of a document with its own heading, sheet or slide; what the server indexes for retrieval
+export type FileSection = {
+  title?: string;
+  // PDF pages: the page number, labelled in the language of the prompt the section ends up in
+  page?: number;
+  text: string;
+  // tables: the header row, repeated at the top of every chunk so rows keep their column names
+  header?: string;
+};
+
+export type CellValue = string | number | boolean | null;
+
+export type ColumnType = "number" | "date" | "boolean" | "text";
+
+// Statistics over every row of a column; dates are ISO strings, so they compare like numbers
+export type ColumnSummary = {
+  name: string;
+  type: ColumnType;
+  // cells that aren't empty
+  count: number;
+  distinct: number;
+  min?: number | string;
+  max?: number | string;
+  sum?: number;
+  mean?: number;
+  // most frequent values of text and boolean columns
+  top?: Array<{ value: string; count: number }>;
+};
+
+// A sheet or CSV file with typed cells. The rows are all of them, not a preview.
+export type FileTable = {
+  name: string;
+  columns: ColumnSummary[];
+  rows: CellValue[][];
+};
 
 export type FileContent = {
   type:
@@ -24,6 +62,12 @@ export type FileContent = {
     size?: number;
     url?: string;
   };
+  // Full extracted text by section (server-side extraction only)
+  sections?: FileSection[];
+  // Spreadsheets and CSV files (server-side extraction only)
+  tables?: FileTable[];
+  // Set once the file is stored on the server by /api/files; chat requests send this id instead of the data
+  attachmentId?: string;
   // For OpenRouter native processing
   fileData?: {
     name: string;
@@ -54,10 +98,8 @@ function detectMainType(file: any) {
   return "file"; // fallback
 }
 
+// In the browser: the file as a base64 data URL, for images sent inline with the message
 export async function processFile(file: File): Promise<FileContent> {
-  const fileType = file.type.toLowerCase();
-  const fileName = file.name.toLowerCase();
-
   console.log("Processing file:", {
     name: file.name,
     type: file.type,
@@ -65,21 +107,6 @@ export async function processFile(file: File): Promise<FileContent> {
   });
 
   try {
-    // Images - convert to base64 for vision models
-    // if (fileType.startsWith("image/")) {
-    //   console.log("Processing as image");
-    //   const base64 = await fileToBase64(file);
-    //   return {
-    //     type: "image",
-    //     content: base64,
-    //     metadata: {
-    //       fileType: "image",
-    //       fileName: file.name,
-    //       mimeType: file.type,
-    //       size: file.size,
-    //     },
-    //   };
-    // } else {
     const base64 = await fileToBase64(file); // data:*/*;base64,AAAA...
     const mainType = detectMainType(file);
     const mime = file.type || "";
@@ -87,7 +114,7 @@ export async function processFile(file: File): Promise<FileContent> {
     console.log("mainType", mainType);
 
     return {
-      type: mainType, // "image" | "pdf" | "word" | "excel" | "text" | "file" | "audio" | "video"
+      type: mainType as FileContent["type"], // "image" | "pdf" | "word" | "excel" | "text" | "file" | "audio" | "video"
       content: base64, // luôn base64, đồng bộ cấu trúc với image
       metadata: {
         fileType: mainType,
@@ -101,131 +128,135 @@ export async function processFile(file: File): Promise<FileContent> {
         data: base64.split(",")[1], // bỏ prefix data:...;base64,
       },
     };
-    // }
-
-    // PDF files - handle as normal file upload
-    if (fileType === "application/pdf" || fileName.endsWith(".pdf")) {
-      console.log("Processing PDF as normal file");
-      const base64 = await fileToBase64(file);
-
-      return {
-        type: "file",
-        content: `📄 **PDF File: ${file.name}** (${formatBytes(file.size)})`,
-        metadata: {
-          fileType: "pdf",
-          fileName: file.name,
-          mimeType: file.type,
-          size: file.size,
-        },
-        fileData: {
-          name: file.name,
-          type: file.type,
-          data: base64.split(",")[1], // Remove data:application/pdf;base64, prefix
-        },
-      };
-    }
-
-    // Excel files - process locally for better control
-    if (
-      fileType ===
-        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
-      fileType === "application/vnd.ms-excel" ||
-      fileType === "application/msexcel" ||
-      fileName.endsWith(".xlsx") ||
-      fileName.endsWith(".xls") ||
-      fileName.endsWith(".xlsm")
-    ) {
-      console.log("Processing as Excel");
-      return await processExcel(file);
-    }
-
-    // Word documents - process locally
-    if (
-      fileType ===
-        "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
-      fileType === "application/msword" ||
-      fileName.endsWith(".docx") ||
-      fileName.endsWith(".doc")
-    ) {
-      console.log("Processing as Word");
-      return await processWord(file);
-    }
+  } catch (error) {
+    console.error("Error processing file:", error);
+    return {
+      type: "error",
+      content: `Lỗi khi đọc file "${file.name}": ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      metadata: { fileType: "error", fileName: file.name },
+    };
+  }
+}
 
-    // CSV files
-    if (fileType === "text/csv" || fileName.endsWith(".csv")) {
-      console.log("Processing as CSV");
-      return await processCSV(file);
-    }
+// Formats whose text is extracted here, checked by mime type or extension
+const EXTRACTORS: Array<{
+  patterns: RegExp[];
+  process: (file: File) => Promise<FileContent>;
+}> = [
+  {
+    patterns: [/spreadsheetml|ms-?excel/, /\.(xlsx|xls|xlsm)$/i],
+    process: processExcel,
+  },
+  {
+    patterns: [/wordprocessingml|msword/, /\.docx?$/i],
+    process: processWord,
+  },
+  { patterns: [/^application\/pdf$/, /\.pdf$/i], process: processPDF },
+  {
+    patterns: [/presentationml\.presentation/, /\.pptx$/i],
+    process: processPowerPoint,
+  },
+  { patterns: [/^text\/csv$/, /\.csv$/i], process: processCSV },
+  { patterns: [/^text\//, /\.(txt|md)$/i], process: processText },
+  { patterns: [/^application\/json$/, /\.json$/i], process: processJSON },
+];
 
-    // Text files
-    if (
-      fileType.startsWith("text/") ||
-      fileName.endsWith(".txt") ||
-      fileName.endsWith(".md")
-    ) {
-      console.log("Processing as text");
-      return await processText(file);
-    }
+function extractorFor(file: { name: string; type: string }) {
+  const mime = (file.type || "").toLowerCase();
+  return EXTRACTORS.find(({ patterns }) =>
+    patterns.some((p) => p.test(mime) || p.test(file.name))
+  );
+}
 
-    // JSON files
-    if (fileType === "application/json" || fileName.endsWith(".json")) {
-      console.log("Processing as JSON");
-      return await processJSON(file);
-    }
+// Whether extractFileContent can read the file's text
+export function canExtractText(file: { name: string; type: string }) {
+  return !!extractorFor(file);
+}
 
-    // PowerPoint files
-    if (
-      fileType ===
-        "application/vnd.openxmlformats-officedocument.presentationml.presentation" ||
-      fileName.endsWith(".pptx")
-    ) {
-      console.log("Processing as PowerPoint");
-      return await processPowerPoint(file);
-    }
+// Reads the text (and sections) out of PDF, Excel, Word, PowerPoint, CSV, text and JSON files. Runs on the server for uploads to
+// /api/files; other files come back as "file" and reach the model as they are.
+export async function extractFileContent(file: File): Promise<FileContent> {
+  const extractor = extractorFor(file);
+  if (extractor) return await extractor.process(file);
+  return {
+    type: "file",
+    content: `📎 **File: ${file.name}** (${formatBytes(file.size)})`,
+    metadata: {
+      fileType: detectMainType(file),
+      fileName: file.name,
+      mimeType: file.type,
+      size: file.size,
+    },
+  };
+}
 
-    // Other supported files - send to OpenRouter for native processing
-    if (
-      OPENROUTER_SUPPORTED_TYPES.includes(fileType) ||
-      file.name.match(/\.(docx?|xlsx?|pptx?)$/i)
-    ) {
-      console.log("Processing as file for OpenRouter native processing");
-      const base64 = await fileToBase64(file);
+// Text PDFs are read page by page; scanned ones have no text layer and come back as "file" for the model to read
+async function processPDF(file: File): Promise<FileContent> {
+  try {
+    console.log("Processing PDF file:", file.name);
+    // loaded on demand: pdf.js is large and only the server extracts PDFs
+    const { extractText } = await import("unpdf");
+    const { totalPages, text } = await extractText(
+      new Uint8Array(await fileToArrayBuffer(file))
+    );
+    const pages = text.map((page) => page.replace(/[ \t]+\n/g, "\n").trim());
+    console.log("PDF text extracted, pages:", totalPages);
 
+    const sections = pages.flatMap((page, index) =>
+      page ? [{ page: index + 1, text: page }] : []
+    );
+    if (sections.length === 0) {
       return {
-        type: "file-native",
-        content: `📎 **File: ${file.name}** (${formatBytes(file.size)})
+        type: "file",
+        content: `📄 **File PDF: ${file.name}** (${formatBytes(file.size)})
 
-Đang sử dụng OpenRouter native file processing để đọc nội dung file này...`,
+File không có lớp chữ (có thể là bản scan), AI sẽ đọc trực tiếp từ file.`,
         metadata: {
-          fileType: "file-native",
+          pages: totalPages,
+          fileType: "pdf-scanned",
           fileName: file.name,
           mimeType: file.type,
           size: file.size,
         },
-        fileData: {
-          name: file.name,
-          type: file.type,
-          data: base64.split(",")[1], // Remove data URL prefix
-        },
       };
     }
 
-    console.log("Unsupported file type");
+    let content = `📄 **File PDF: ${file.name}**
+
+**Kích thước:** ${formatBytes(file.size)}
+**Số trang:** ${totalPages}
+
+`;
+    // labelled in the language of the rest of the attachment text
+    const messages = getMessages(DEFAULT_LOCALE);
+    for (const section of sections) {
+      content += `**${interpolate(messages.files.page, {
+        page: section.page,
+      })}**\n${section.text}\n\n---\n\n`;
+    }
+
+    console.log("PDF processing completed successfully");
     return {
-      type: "error",
-      content: `Loại file không được hỗ trợ: ${
-        file.type || "unknown"
-      }\nTên file: ${file.name}`,
-      metadata: { fileType: "unsupported", fileName: file.name },
+      type: "text",
+      content: content.trim(),
+      sections,
+      metadata: { pages: totalPages, fileType: "pdf", fileName: file.name },
     };
   } catch (error) {
-    console.error("Error processing file:", error);
+    console.error("PDF processing error:", error);
     return {
       type: "error",
-      content: `Lỗi khi đọc file "${file.name}": ${
+      content: `Không thể đọc file PDF "${file.name}": ${
         error instanceof Error ? error.message : "Unknown error"
-      }`,
-      metadata: { fileType: "error", fileName: file.name },
+      }
+
+**Gợi ý:**
+- File có mật khẩu: mở khoá rồi lưu lại
+- Thử xuất lại PDF từ ứng dụng gốc
+- Hoặc copy nội dung và paste trực tiếp`,
+      metadata: { fileType: "pdf-error", fileName: file.name },
     };
   }
 }
@@ -292,32 +323,234 @@ export function isPDFUrl(text: string): boolean {
   }
 }
 
-// Keep existing helper functions...
+// Blob methods rather than FileReader, so the processors also run on the server
 async function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = (error) => reject(error);
-  });
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${file.type || "application/octet-stream"};base64,${btoa(binary)}`;
 }
 
 async function fileToArrayBuffer(file: File): Promise<ArrayBuffer> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsArrayBuffer(file);
-    reader.onload = () => resolve(reader.result as ArrayBuffer);
-    reader.onerror = (error) => reject(error);
-  });
+  return file.arrayBuffer();
 }
 
 async function fileToText(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsText(file, "utf-8");
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = (error) => reject(error);
+  return file.text();
+}
+
+// Markdown headings start a new section
+function markdownSections(text: string): FileSection[] {
+  const sections: FileSection[] = [{ text: "" }];
+  for (const line of text.split(/\r?\n/)) {
+    const heading = line.match(/^#{1,6}\s+(.+)$/);
+    if (heading) sections.push({ title: heading[1].trim(), text: "" });
+    else sections[sections.length - 1].text += `${line}\n`;
+  }
+  return sections.filter((section) => section.text.trim());
+}
+
+// Every row of a sheet, one per line; the first row is the header
+function tableSection(rows: unknown[][], title?: string): FileSection {
+  const lines = rows
+    .map((row) =>
+      row.map((cell) => (cell == null ? "" : String(cell).trim())).join(" | ")
+    )
+    .filter((line) => line.replace(/[|\s]/g, ""));
+  return { title, header: lines[0], text: lines.slice(1).join("\n") };
+}
+
+const NUMBER_PATTERN = /^[-+]?(\d+|\d{1,3}(,\d{3})+)(\.\d+)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2})?)?/;
+const TOP_VALUES = 5;
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  return time === "00:00" ? day : `${day} ${time}`;
+}
+
+function cellValue(cell: unknown): CellValue {
+  if (cell == null) return null;
+  if (cell instanceof Date) return formatDate(cell);
+  if (typeof cell === "number" || typeof cell === "boolean") return cell;
+  const text = String(cell).trim();
+  return text === "" ? null : text;
+}
+
+// The narrowest type every non-empty cell fits; "1,234.5" counts as a number
+function inferType(values: CellValue[]): ColumnType {
+  const present = values.filter((value) => value !== null);
+  if (present.length === 0) return "text";
+  const every = (test: (value: CellValue) => boolean) => present.every(test);
+  if (
+    every(
+      (value) =>
+        typeof value === "number" ||
+        (typeof value === "string" && NUMBER_PATTERN.test(value))
+    )
+  )
+    return "number";
+  if (
+    every(
+      (value) =>
+        typeof value === "boolean" ||
+        (typeof value === "string" && /^(true|false)$/i.test(value))
+    )
+  )
+    return "boolean";
+  if (every((value) => typeof value === "string" && DATE_PATTERN.test(value)))
+    return "date";
+  return "text";
+}
+
+function convert(value: CellValue, type: ColumnType): CellValue {
+  if (value === null || typeof value !== "string") return value;
+  if (type === "number") return Number(value.replace(/,/g, ""));
+  if (type === "boolean") return value.toLowerCase() === "true";
+  return value;
+}
+
+function summarizeColumn(
+  name: string,
+  type: ColumnType,
+  values: CellValue[]
+): ColumnSummary {
+  const present = values.filter(
+    (value): value is string | number | boolean => value !== null
+  );
+  const counts = new Map<string, number>();
+  for (const value of present) {
+    counts.set(String(value), (counts.get(String(value)) ?? 0) + 1);
+  }
+  const summary: ColumnSummary = {
+    name,
+    type,
+    count: present.length,
+    distinct: counts.size,
+  };
+  if (present.length === 0) return summary;
+  if (type === "number") {
+    const numbers = present as number[];
+    const sum = numbers.reduce((total, value) => total + value, 0);
+    // reduce, since spreading a whole column into Math.min overflows the stack
+    summary.min = numbers.reduce((min, value) => Math.min(min, value));
+    summary.max = numbers.reduce((max, value) => Math.max(max, value));
+    summary.sum = sum;
+    summary.mean = sum / numbers.length;
+  } else if (type === "date") {
+    const dates = [...(present as string[])].sort();
+    summary.min = dates[0];
+    summary.max = dates[dates.length - 1];
+  } else {
+    summary.top = [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_VALUES)
+      .map(([value, count]) => ({ value, count }));
+  }
+  return summary;
+}
+
+// The first non-empty row is the header; blank header cells become "Column N"
+function buildTable(name: string, raw: unknown[][]): FileTable | null {
+  const rows = raw
+    .map((row) => Array.from(row ?? [], cellValue))
+    .filter((row) => row.some((value) => value !== null));
+  if (rows.length === 0) return null;
+  const [header, ...body] = rows;
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const names = Array.from({ length: width }, (_, index) =>
+    header[index] === null || header[index] === undefined
+      ? `Column ${index + 1}`
+      : String(header[index])
+  );
+  const columns = names.map((columnName, index) => {
+    const type = inferType(body.map((row) => row[index] ?? null));
+    // cells are stored converted, and short rows padded with nulls
+    const values = body.map(
+      (row) => (row[index] = convert(row[index] ?? null, type))
+    );
+    return summarizeColumn(columnName, type, values);
   });
+  return { name, columns, rows: body };
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value)
+    ? value.toLocaleString("en-US")
+    : value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+// Row count, then one line per column with its type and statistics over all rows
+export function describeTable(table: FileTable): string {
+  const lines = table.columns.map((column) => {
+    const details: string[] = [];
+    const empty = table.rows.length - column.count;
+    if (column.type === "number" && column.count > 0) {
+      details.push(
+        `min ${formatNumber(column.min as number)}`,
+        `max ${formatNumber(column.max as number)}`,
+        `mean ${formatNumber(column.mean as number)}`,
+        `sum ${formatNumber(column.sum as number)}`
+      );
+    } else if (column.type === "date" && column.count > 0) {
+      details.push(`${column.min} to ${column.max}`);
+    } else if (column.top?.length) {
+      details.push(
+        `${column.distinct} distinct, most common: ${column.top
+          .map(({ value, count }) => `${value} (${count})`)
+          .join(", ")}`
+      );
+    }
+    if (empty > 0) details.push(`${empty} empty`);
+    return `- ${column.name}: ${column.type}${
+      details.length ? `; ${details.join("; ")}` : ""
+    }`;
+  });
+  return [
+    `${table.name} (${table.rows.length} rows, ${table.columns.length} columns)`,
+    ...lines,
+  ].join("\n");
+}
+
+// Retrieval chunks of a table, with the header repeated in each
+function tableSectionOf(table: FileTable, title?: string): FileSection {
+  return tableSection(
+    [table.columns.map((column) => column.name), ...table.rows],
+    title
+  );
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  "#39": "'",
+  nbsp: " ",
+};
+
+// mammoth's HTML keeps the headings that its raw text loses
+function htmlToMarkdown(html: string): string {
+  return html
+    .replace(
+      /<h([1-6])[^>]*>(.*?)<\/h\1>/gi,
+      (_match, level, title) => `\n${"#".repeat(Number(level))} ${title}\n`
+    )
+    .replace(/<\/(p|li|tr)>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, " | ")
+    .replace(/<[^>]+>/g, "")
+    .replace(
+      /&(amp|lt|gt|quot|#39|nbsp);/g,
+      (_match, name) => HTML_ENTITIES[name]
+    )
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
 }
 
 // Keep all existing processing functions (processExcel, processWord, etc.)
@@ -332,40 +565,32 @@ async function processExcel(file: File): Promise<FileContent> {
       arrayBuffer.byteLength
     );
 
-    const workbook = XLSX.read(arrayBuffer, { type: "array" });
+    const workbook = XLSX.read(arrayBuffer, { type: "array", cellDates: true });
     console.log("Excel workbook parsed, sheets:", workbook.SheetNames);
 
     const sheetNames = workbook.SheetNames;
-    let content = `📊 **File Excel: ${file.name}**\n\n`;
-
-    sheetNames.forEach((sheetName, index) => {
-      const worksheet = workbook.Sheets[sheetName];
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-
-      content += `**Sheet ${index + 1}: ${sheetName}**\n`;
-      content += `Số dòng: ${jsonData.length}\n\n`;
-
-      // Show first 10 rows
-      jsonData.slice(0, 10).forEach((row: any, rowIndex) => {
-        if (Array.isArray(row) && row.length > 0) {
-          content += row.map((cell) => cell || "").join(" | ") + "\n";
-        }
+    const tables = sheetNames.flatMap((sheetName) => {
+      const jsonData = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], {
+        header: 1,
       });
-
-      if (jsonData.length > 10) {
-        content += `... và ${jsonData.length - 10} dòng khác\n`;
-      }
-      content += "\n---\n\n";
+      const table = buildTable(sheetName, jsonData as unknown[][]);
+      return table ? [table] : [];
     });
 
+    const content = `📊 **File Excel: ${file.name}**
+
+${tables.map(describeTable).join("\n\n")}`;
+
     console.log("Excel processing completed successfully");
     return {
       type: "table",
       content: content.trim(),
+      sections: tables.map((table) => tableSectionOf(table, table.name)),
+      tables,
       metadata: {
         sheets: sheetNames,
-        rows: XLSX.utils.sheet_to_json(workbook.Sheets[sheetNames[0]] || {})
-          .length,
+        rows: tables[0]?.rows.length ?? 0,
+        columns: tables[0]?.columns.length ?? 0,
         fileType: "excel",
         fileName: file.name,
       },
@@ -393,10 +618,11 @@ async function processWord(file: File): Promise<FileContent> {
     const arrayBuffer = await fileToArrayBuffer(file);
     console.log("Word file read as ArrayBuffer, size:", arrayBuffer.byteLength);
 
-    const result = await mammoth.extractRawText({ arrayBuffer });
-    console.log("Word text extracted, length:", result.value.length);
+    const result = await mammoth.convertToHtml({ arrayBuffer });
+    const text = htmlToMarkdown(result.value);
+    console.log("Word text extracted, length:", text.length);
 
-    if (!result.value || result.value.trim().length === 0) {
+    if (!text) {
       return {
         type: "error",
         content: `File Word "${file.name}" có vẻ trống hoặc không thể đọc được.
@@ -412,16 +638,17 @@ async function processWord(file: File): Promise<FileContent> {
     const content = `📝 **File Word: ${file.name}**
 
 **Kích thước:** ${formatBytes(file.size)}
-**Số ký tự:** ${result.value.length}
+**Số ký tự:** ${text.length}
 
 **Nội dung:**
 
-${result.value}`;
+${text}`;
 
     console.log("Word processing completed successfully");
     return {
       type: "text", // Keep as "text" type for local processing
       content: content,
+      sections: markdownSections(text),
       metadata: { fileType: "word", fileName: file.name },
     };
   } catch (error) {
@@ -446,26 +673,21 @@ async function processCSV(file: File): Promise<FileContent> {
     console.log("Processing CSV file:", file.name);
     const text = await fileToText(file);
     const parsed = Papa.parse(text, { header: false });
+    const table = buildTable(file.name, parsed.data as unknown[][]);
+    const tables = table ? [table] : [];
 
-    let content = `📋 **File CSV: ${file.name}**\n\n`;
+    const content = `📋 **File CSV: ${file.name}**
 
-    // Show first 20 rows
-    parsed.data.slice(0, 20).forEach((row: any, index) => {
-      if (Array.isArray(row) && row.length > 0) {
-        content += row.join(" | ") + "\n";
-      }
-    });
-
-    if (parsed.data.length > 20) {
-      content += `\n... và ${parsed.data.length - 20} dòng khác`;
-    }
+${tables.map(describeTable).join("\n\n")}`;
 
     return {
       type: "table",
       content: content.trim(),
+      sections: tables.map((table) => tableSectionOf(table)),
+      tables,
       metadata: {
-        rows: parsed.data.length,
-        columns: parsed.data[0]?.length || 0,
+        rows: table?.rows.length ?? 0,
+        columns: table?.columns.length ?? 0,
         fileType: "csv",
         fileName: file.name,
       },
@@ -499,6 +721,7 @@ ${text}`;
     return {
       type: "text",
       content: content,
+      sections: markdownSections(text),
       metadata: { fileType: "text", fileName: file.name },
     };
   } catch (error) {
@@ -533,6 +756,7 @@ ${formatted}
     return {
       type: "text",
       content: content,
+      sections: [{ text: formatted }],
       metadata: { fileType: "json", fileName: file.name },
     };
   } catch (error) {
@@ -547,35 +771,210 @@ ${formatted}
   }
 }
 
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] !== "#") return XML_ENTITIES[entity] ?? match;
+    const code =
+      entity[1].toLowerCase() === "x"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+// The paragraphs of a DrawingML text body, one per line, indented by list level
+function drawingParagraphs(xml: string): string[] {
+  const paragraphs: string[] = [];
+  for (const [, body] of xml.matchAll(/<a:p(?:\s[^>]*)?>([\s\S]*?)<\/a:p>/g)) {
+    const level = Number(body.match(/<a:pPr[^>]*\blvl="(\d+)"/)?.[1] ?? 0);
+    const text = decodeXml(
+      body
+        .replace(/<a:br\s*\/>/g, "<a:t>\n</a:t>")
+        .match(/<a:t(?:\s[^>]*)?>[^<]*<\/a:t>/g)
+        ?.map((run) => run.replace(/<[^>]+>/g, ""))
+        .join("") ?? ""
+    ).trim();
+    if (text) paragraphs.push("  ".repeat(level) + text);
+  }
+  return paragraphs;
+}
+
+// Cells of an <a:tbl>, row by row
+function drawingTable(xml: string): string[][] {
+  return [...xml.matchAll(/<a:tr\b[^>]*>([\s\S]*?)<\/a:tr>/g)].map(([, row]) =>
+    [...row.matchAll(/<a:tc\b[^>]*>([\s\S]*?)<\/a:tc>/g)].map(([, cell]) =>
+      drawingParagraphs(cell).join(" ").replace(/\s+/g, " ")
+    )
+  );
+}
+
+function placeholderType(shape: string) {
+  return shape.match(/<p:ph\b[^>]*\btype="(\w+)"/)?.[1];
+}
+
+// "ppt/slides/slide1.xml" for "slides/slide1.xml" as seen from "ppt/presentation.xml"
+function resolvePart(from: string, target: string): string {
+  // "/ppt/slides/slide1.xml" starts from the package root
+  const parts = target.startsWith("/") ? [] : from.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment && segment !== ".") parts.push(segment);
+  }
+  return parts.join("/");
+}
+
+// Relationship id → part path, from the part's .rels file
+async function partRelationships(zip: JSZip, part: string) {
+  const slash = part.lastIndexOf("/");
+  const relsPath = `${part.slice(0, slash)}/_rels/${part.slice(slash + 1)}.rels`;
+  const xml = (await zip.file(relsPath)?.async("string")) ?? "";
+  const relationships = new Map<string, { type: string; path: string }>();
+  for (const [tag] of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const attribute = (name: string) =>
+      tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1] ?? "";
+    // hyperlinks and linked media point outside the package
+    if (attribute("TargetMode") === "External") continue;
+    relationships.set(attribute("Id"), {
+      type: attribute("Type"),
+      path: resolvePart(part, attribute("Target")),
+    });
+  }
+  return relationships;
+}
+
+// Slide parts in presentation order (the order of <p:sldIdLst>, not of the file names)
+async function slidePaths(zip: JSZip): Promise<string[]> {
+  const presentation =
+    (await zip.file("ppt/presentation.xml")?.async("string")) ?? "";
+  const relationships = await partRelationships(zip, "ppt/presentation.xml");
+  const ordered = [
+    ...presentation.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g),
+  ].flatMap(([, id]) => relationships.get(id)?.path ?? []);
+  if (ordered.length > 0) return ordered;
+  const slideNumber = (path: string) => Number(path.match(/(\d+)\.xml$/)?.[1]);
+  return Object.keys(zip.files)
+    .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+type Slide = {
+  number: number;
+  title?: string;
+  text: string[];
+  tables: string[][][];
+  notes: string[];
+};
+
+async function readSlide(
+  zip: JSZip,
+  path: string,
+  number: number
+): Promise<Slide> {
+  const xml = (await zip.file(path)?.async("string")) ?? "";
+  const slide: Slide = { number, text: [], tables: [], notes: [] };
+  // shapes and tables in the order they appear on the slide
+  for (const [element] of xml.matchAll(
+    /<p:sp\b[^>]*>[\s\S]*?<\/p:sp>|<a:tbl\b[^>]*>[\s\S]*?<\/a:tbl>/g
+  )) {
+    if (element.startsWith("<a:tbl")) {
+      slide.tables.push(drawingTable(element));
+      continue;
+    }
+    const paragraphs = drawingParagraphs(element);
+    const type = placeholderType(element);
+    if ((type === "title" || type === "ctrTitle") && !slide.title) {
+      slide.title = paragraphs.join(" ").replace(/\s+/g, " ") || undefined;
+    } else if (type !== "sldNum" && type !== "dt" && type !== "ftr") {
+      slide.text.push(...paragraphs);
+    }
+  }
+  // speaker notes are the body placeholder of the slide's notes part
+  const notesPath = [...(await partRelationships(zip, path)).values()].find(
+    ({ type }) => type.endsWith("/notesSlide")
+  )?.path;
+  const notesXml = notesPath
+    ? ((await zip.file(notesPath)?.async("string")) ?? "")
+    : "";
+  for (const [shape] of notesXml.matchAll(/<p:sp\b[^>]*>[\s\S]*?<\/p:sp>/g)) {
+    if (placeholderType(shape) === "body") {
+      slide.notes.push(...drawingParagraphs(shape));
+    }
+  }
+  return slide;
+}
+
+// One section per slide, one per table on it and one for its notes, all titled after the slide
+function slideSections(slide: Slide): FileSection[] {
+  const title = slide.title
+    ? `Slide ${slide.number}: ${slide.title}`
+    : `Slide ${slide.number}`;
+  return [
+    { title, text: slide.text.join("\n") },
+    ...slide.tables.map((rows) => tableSection(rows, title)),
+    { title: `${title} (notes)`, text: slide.notes.join("\n") },
+  ].filter((section) => section.text.trim() || section.header);
+}
+
 async function processPowerPoint(file: File): Promise<FileContent> {
   try {
     console.log("Processing PowerPoint file:", file.name);
+    const zip = await JSZip.loadAsync(await fileToArrayBuffer(file));
+    const paths = await slidePaths(zip);
+    const slides = await Promise.all(
+      paths.map((path, index) => readSlide(zip, path, index + 1))
+    );
+    console.log("PowerPoint slides read:", slides.length);
 
-    // For now, we'll use OpenRouter native processing for PowerPoint
-    // since extracting PPTX content requires complex parsing
-    const base64 = await fileToBase64(file);
+    const sections = slides.flatMap(slideSections);
+    if (sections.length === 0) {
+      return {
+        type: "error",
+        content: `File PowerPoint "${file.name}" có vẻ trống hoặc không có chữ để đọc.
 
-    return {
-      type: "file-native",
-      content: `📊 **File PowerPoint: ${file.name}** (${formatBytes(file.size)})
+**Gợi ý:**
+- Slide chỉ có hình ảnh: chụp ảnh các slide quan trọng rồi upload
+- Hoặc copy nội dung và paste trực tiếp`,
+        metadata: { fileType: "powerpoint-empty", fileName: file.name },
+      };
+    }
 
-Đang sử dụng AI để đọc nội dung PowerPoint này...
+    let content = `📊 **File PowerPoint: ${file.name}**
 
-**Thông tin file:**
-- Định dạng: ${file.type}
-- Kích thước: ${formatBytes(file.size)}
+**Kích thước:** ${formatBytes(file.size)}
+**Số slide:** ${slides.length}
+
+`;
+    for (const slide of slides) {
+      content += `**Slide ${slide.number}${
+        slide.title ? `: ${slide.title}` : ""
+      }**\n`;
+      if (slide.text.length > 0) content += `${slide.text.join("\n")}\n`;
+      for (const rows of slide.tables) {
+        content += `${rows.map((row) => row.join(" | ")).join("\n")}\n`;
+      }
+      if (slide.notes.length > 0) {
+        content += `_Ghi chú:_ ${slide.notes.join("\n")}\n`;
+      }
+      content += "\n---\n\n";
+    }
 
-AI sẽ phân tích và trích xuất nội dung từ các slide trong presentation.`,
+    console.log("PowerPoint processing completed successfully");
+    return {
+      type: "text",
+      content: content.trim(),
+      sections,
       metadata: {
-        fileType: "powerpoint-native",
+        pages: slides.length,
+        fileType: "powerpoint",
         fileName: file.name,
-        mimeType: file.type,
-        size: file.size,
-      },
-      fileData: {
-        name: file.name,
-        type: file.type,
-        data: base64.split(",")[1], // Remove data URL prefix
       },
     };
   } catch (error) {
@@ -587,10 +986,9 @@ AI sẽ phân tích và trích xuất nội dung từ các slide trong presentat
       }
 
 **Gợi ý thay thế:**
-1. **Xuất ra PDF:** File → Export → PDF → Upload PDF  
-2. **Chụp ảnh slides:** Chụp ảnh các slide quan trọng
-3. **Copy nội dung:** Copy text từ slides và paste vào tin nhắn
-4. **Mô tả nội dung:** Mô tả presentation để tôi hỗ trợ tốt hơn`,
+1. **Lưu lại dạng .pptx:** File .ppt cũ cần được lưu lại bằng PowerPoint mới
+2. **Xuất ra PDF:** File → Export → PDF → Upload PDF
+3. **Copy nội dung:** Copy text từ slides và paste vào tin nhắn`,
       metadata: { fileType: "powerpoint-error", fileName: file.name },
     };
   }
@@ -652,7 +1050,8 @@ export const SUPPORTED_FILE_TYPES = [
   "text/markdown",
 ];
 
-export const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB
+// Uploads go to /api/files as multipart data, so this no longer has to fit in a JSON request
+export const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
 
 function formatBytes(bytes: number): string {
   if (bytes === 0) return "0 B";
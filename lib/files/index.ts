@@ -0,0 +1,132 @@
+import { randomUUID } from "node:crypto"
+import { mkdir, readFile, unlink, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { getDb } from "@/lib/db"
+import { extractFileContent } from "@/lib/file-utils"
+import type { FileAttachment } from "@/lib/providers"
+import type { StoredAttachment } from "./types"
+
+// Files uploaded to /api/files: the bytes on disk under FILES_DIR (one file per attachment id), their details and
+// what extraction made of them in SQLite. Chat requests send the ids instead of base64 data.
+
+function filesDirectory() {
+  return process.env.FILES_DIR?.trim() || join(process.cwd(), "data", "files")
+}
+
+// ids are generated here and looked up in the table before a path is built from them
+function pathFor(id: string) {
+  return join(filesDirectory(), id)
+}
+
+let ready = false
+
+function db() {
+  const database = getDb()
+  if (!ready) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS attachments (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        metadata TEXT,
+        error TEXT,
+        created_at INTEGER NOT NULL
+      );
+    `)
+    ready = true
+  }
+  return database
+}
+
+type AttachmentRow = {
+  id: string
+  name: string
+  mime_type: string
+  size: number
+  kind: StoredAttachment["kind"]
+  metadata: string | null
+  error: string | null
+  created_at: number
+}
+
+function toAttachment(row: AttachmentRow): StoredAttachment {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.mime_type,
+    size: row.size,
+    createdAt: row.created_at,
+    kind: row.kind,
+    ...(row.metadata ? { metadata: JSON.parse(row.metadata) } : {}),
+    ...(row.error ? { error: row.error } : {}),
+  }
+}
+
+// Stores the file and extracts its text once, so the client learns right away whether it could be read
+export async function saveAttachment(file: File): Promise<StoredAttachment> {
+  const id = randomUUID()
+  await mkdir(filesDirectory(), { recursive: true })
+  await writeFile(pathFor(id), Buffer.from(await file.arrayBuffer()))
+  const content = await extractFileContent(file)
+  const attachment: StoredAttachment = {
+    id,
+    name: file.name || "file",
+    type: file.type || "application/octet-stream",
+    size: file.size,
+    createdAt: Date.now(),
+    kind: content.type,
+    ...(content.metadata ? { metadata: content.metadata } : {}),
+    ...(content.type === "error" ? { error: content.content } : {}),
+  }
+  db()
+    .prepare(
+      `INSERT INTO attachments (id, name, mime_type, size, kind, metadata, error, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      id,
+      attachment.name,
+      attachment.type,
+      attachment.size,
+      attachment.kind,
+      attachment.metadata ? JSON.stringify(attachment.metadata) : null,
+      attachment.error ?? null,
+      attachment.createdAt,
+    )
+  return attachment
+}
+
+export function getAttachment(id: string): StoredAttachment | null {
+  const row = db().prepare("SELECT * FROM attachments WHERE id = ?").get(id) as AttachmentRow | undefined
+  return row ? toAttachment(row) : null
+}
+
+export async function readAttachment(id: string): Promise<{ attachment: StoredAttachment; data: Buffer } | null> {
+  const attachment = getAttachment(id)
+  const data = attachment && (await readFile(pathFor(id)).catch(() => null))
+  return attachment && data ? { attachment, data } : null
+}
+
+// The stored files as providers take them (base64), in the order of `ids`. Ids without a file come back in `missing`.
+export async function loadAttachments(ids: string[]) {
+  const files: FileAttachment[] = []
+  const missing: string[] = []
+  for (const id of ids) {
+    const stored = await readAttachment(id)
+    if (stored)
+      files.push({ name: stored.attachment.name, type: stored.attachment.type, data: stored.data.toString("base64") })
+    else missing.push(id)
+  }
+  return { files, missing }
+}
+
+// Returns false when the attachment doesn't exist
+export async function deleteAttachment(id: string) {
+  if (db().prepare("DELETE FROM attachments WHERE id = ?").run(id).changes === 0) return false
+  await unlink(pathFor(id)).catch(() => {})
+  return true
+}
+
+export type * from "./types"
@@ -0,0 +1,16 @@
+import type { FileContent } from "@/lib/file-utils"
+
+// A file uploaded to /api/files. The bytes stay on the server; chat requests refer to it by `id`.
+export type StoredAttachment = {
+  id: string
+  name: string
+  type: string
+  size: number
+  createdAt: number
+  // what extraction made of it: "text" or "table" when its text was read, "file" when the model reads it itself,
+  // "error" when it could not be read
+  kind: FileContent["type"]
+  metadata?: FileContent["metadata"]
+  // extraction's message for files that could not be read
+  error?: string
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { addTurn, createSession, getSession } from "./index"
+
+describe("addTurn", () => {
+  it("appends turns and names the session after the first question", () => {
+    createSession({ id: "s1", categoryId: "quan-ly-du-an" })
+    addTurn("s1", { id: "t1", user: { content: "Lập kế hoạch dự án" } })
+    const session = addTurn("s1", { id: "t2", user: { content: "Chi phí?" } })
+    expect(session?.title).toBe("Lập kế hoạch dự án")
+    expect(session?.turns.map((turn) => turn.id)).toEqual(["t1", "t2"])
+  })
+
+  it("ignores a turn that is already stored", () => {
+    createSession({ id: "s2", categoryId: "quan-ly-du-an" })
+    const turn = { id: "t3", user: { content: "Xin chào" } }
+    addTurn("s2", turn)
+    const retried = addTurn("s2", turn)
+    expect(retried?.turns).toEqual([turn])
+    expect(getSession("s2")?.turns).toEqual([turn])
+  })
+
+  it("returns null for an unknown session", () => {
+    expect(addTurn("missing", { id: "t4" })).toBeNull()
+  })
+})
@@ -0,0 +1,239 @@
+import { getDb } from "@/lib/db"
+import type {
+  ConversationSummary,
+  LegacyImport,
+  SessionSummary,
+  StoredCategory,
+  StoredSession,
+  StoredTurn,
+} from "./types"
+
+export const DEFAULT_SESSION_TITLE = "Cuộc trò chuyện mới"
+
+const DEFAULT_CATEGORIES: StoredCategory[] = [
+  { id: "quan-ly-du-an", name: "Quản lý dự án", icon: "book" },
+  { id: "nghien-cuu-giai-phap", name: "Nghiên cứu giải pháp", icon: "flask" },
+]
+
+let ready = false
+
+function db() {
+  const database = getDb()
+  if (!ready) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS categories (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        icon TEXT NOT NULL DEFAULT 'folder',
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        category_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        summary TEXT,
+        summary_turns INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE TABLE IF NOT EXISTS turns (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS turns_session ON turns(session_id, position);
+    `)
+    // databases created before conversation summaries existed
+    const columns = database.prepare("PRAGMA table_info(sessions)").all() as Array<{ name: string }>
+    if (!columns.some((column) => column.name === "summary")) {
+      database.exec(`
+        ALTER TABLE sessions ADD COLUMN summary TEXT;
+        ALTER TABLE sessions ADD COLUMN summary_turns INTEGER NOT NULL DEFAULT 0;
+      `)
+    }
+    const { count } = database.prepare("SELECT COUNT(*) AS count FROM categories").get() as { count: number }
+    if (count === 0) {
+      const insert = database.prepare("INSERT INTO categories (id, name, icon, created_at) VALUES (?, ?, ?, ?)")
+      // lists are newest first, so earlier defaults get the later timestamps
+      DEFAULT_CATEGORIES.forEach((cat, index) => insert.run(cat.id, cat.name, cat.icon, -1 - index))
+    }
+    ready = true
+  }
+  return database
+}
+
+// --- Categories ---
+
+export function listCategories(): StoredCategory[] {
+  return db().prepare("SELECT id, name, icon FROM categories ORDER BY created_at DESC").all() as StoredCategory[]
+}
+
+export function createCategory(category: StoredCategory) {
+  db()
+    .prepare("INSERT INTO categories (id, name, icon, created_at) VALUES (?, ?, ?, ?)")
+    .run(category.id, category.name, category.icon, Date.now())
+  return category
+}
+
+export function updateCategory(id: string, changes: Partial<Omit<StoredCategory, "id">>) {
+  const current = db().prepare("SELECT id, name, icon FROM categories WHERE id = ?").get(id) as
+    StoredCategory | undefined
+  if (!current) return null
+  const next = { ...current, ...changes }
+  db().prepare("UPDATE categories SET name = ?, icon = ? WHERE id = ?").run(next.name, next.icon, id)
+  return next
+}
+
+// Sessions of a deleted category are deleted with it
+export function deleteCategory(id: string) {
+  const database = db()
+  return database.transaction(() => {
+    database.prepare("DELETE FROM sessions WHERE category_id = ?").run(id)
+    return database.prepare("DELETE FROM categories WHERE id = ?").run(id).changes > 0
+  })()
+}
+
+// --- Sessions ---
+
+type SessionRow = {
+  id: string
+  title: string
+  categoryId: string
+  createdAt: number
+  updatedAt: number
+  turnCount: number
+  totalTokens: number
+  costUsd: number
+}
+
+// Usage totals come from the `usage` summary each answered turn carries; older turns without one count as zero
+const SESSION_COLUMNS = `s.id, s.title, s.category_id AS categoryId, s.created_at AS createdAt, s.updated_at AS updatedAt,
+  (SELECT COUNT(*) FROM turns t WHERE t.session_id = s.id) AS turnCount,
+  (SELECT COALESCE(SUM(json_extract(t.data, '$.usage.totalTokens')), 0) FROM turns t WHERE t.session_id = s.id) AS totalTokens,
+  (SELECT COALESCE(SUM(json_extract(t.data, '$.usage.costUsd')), 0) FROM turns t WHERE t.session_id = s.id) AS costUsd`
+
+export function listSessions(categoryId?: string): SessionSummary[] {
+  const sql = `SELECT ${SESSION_COLUMNS} FROM sessions s ${categoryId ? "WHERE s.category_id = ?" : ""} ORDER BY s.created_at DESC`
+  const statement = db().prepare(sql)
+  return (categoryId ? statement.all(categoryId) : statement.all()) as SessionRow[]
+}
+
+export function getSession(id: string): StoredSession | null {
+  const row = db().prepare(`SELECT ${SESSION_COLUMNS} FROM sessions s WHERE s.id = ?`).get(id) as SessionRow | undefined
+  if (!row) return null
+  const turns = db().prepare("SELECT data FROM turns WHERE session_id = ? ORDER BY position").all(id) as Array<{
+    data: string
+  }>
+  const summary = getSessionSummary(id)
+  return { ...row, turns: turns.map((turn) => JSON.parse(turn.data) as StoredTurn), ...(summary ? { summary } : {}) }
+}
+
+export function createSession(session: { id: string; title?: string; categoryId: string; createdAt?: number }) {
+  const now = Date.now()
+  const createdAt = session.createdAt ?? now
+  db()
+    .prepare("INSERT INTO sessions (id, title, category_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?)")
+    .run(session.id, session.title || DEFAULT_SESSION_TITLE, session.categoryId, createdAt, now)
+  return getSession(session.id)!
+}
+
+export function updateSession(id: string, changes: { title?: string; categoryId?: string }) {
+  const current = getSession(id)
+  if (!current) return null
+  db()
+    .prepare("UPDATE sessions SET title = ?, category_id = ?, updated_at = ? WHERE id = ?")
+    .run(changes.title ?? current.title, changes.categoryId ?? current.categoryId, Date.now(), id)
+  return getSession(id)
+}
+
+export function getSessionCategoryId(id: string): string | null {
+  const row = db().prepare("SELECT category_id AS categoryId FROM sessions WHERE id = ?").get(id) as
+    { categoryId: string } | undefined
+  return row?.categoryId ?? null
+}
+
+export function getSessionSummary(id: string): ConversationSummary | null {
+  const row = db().prepare("SELECT summary AS text, summary_turns AS turns FROM sessions WHERE id = ?").get(id) as
+    { text: string | null; turns: number } | undefined
+  return row?.text ? { text: row.text, turns: row.turns } : null
+}
+
+// Returns false when the session doesn't exist
+export function setSessionSummary(id: string, summary: ConversationSummary) {
+  return (
+    db().prepare("UPDATE sessions SET summary = ?, summary_turns = ? WHERE id = ?").run(summary.text, summary.turns, id)
+      .changes > 0
+  )
+}
+
+export function deleteSession(id: string) {
+  return db().prepare("DELETE FROM sessions WHERE id = ?").run(id).changes > 0
+}
+
+// --- Turns ---
+
+// The first turn names the session after the question, like the sidebar always did. Saving a turn id that is already
+// stored changes nothing, so a client can retry a save whose response it never got.
+export function addTurn(sessionId: string, turn: StoredTurn) {
+  const database = db()
+  return database.transaction(() => {
+    const session = getSession(sessionId)
+    if (!session) return null
+    const inserted = database
+      .prepare("INSERT OR IGNORE INTO turns (id, session_id, position, data) VALUES (?, ?, ?, ?)")
+      .run(turn.id, sessionId, session.turns.length, JSON.stringify(turn)).changes
+    if (!inserted) return session
+    const question = (turn.user as { content?: string } | undefined)?.content
+    const title = session.turns.length === 0 ? (question || "Cuộc trò chuyện").slice(0, 40) : session.title
+    database.prepare("UPDATE sessions SET title = ?, updated_at = ? WHERE id = ?").run(title, Date.now(), sessionId)
+    return getSession(sessionId)
+  })()
+}
+
+export function clearTurns(sessionId: string) {
+  const database = db()
+  if (!getSession(sessionId)) return null
+  database.prepare("DELETE FROM turns WHERE session_id = ?").run(sessionId)
+  database
+    .prepare("UPDATE sessions SET summary = NULL, summary_turns = 0, updated_at = ? WHERE id = ?")
+    .run(Date.now(), sessionId)
+  return getSession(sessionId)
+}
+
+// --- Import ---
+
+// Copies localStorage data into the database. Ids that already exist are skipped, so importing twice is harmless.
+export function importLegacyData(data: LegacyImport) {
+  const database = db()
+  const counts = { categories: 0, sessions: 0, turns: 0 }
+  database.transaction(() => {
+    const insertCategory = database.prepare(
+      "INSERT OR IGNORE INTO categories (id, name, icon, created_at) VALUES (?, ?, ?, ?)",
+    )
+    const insertSession = database.prepare(
+      "INSERT OR IGNORE INTO sessions (id, title, category_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?)",
+    )
+    const insertTurn = database.prepare(
+      "INSERT OR IGNORE INTO turns (id, session_id, position, data) VALUES (?, ?, ?, ?)",
+    )
+    const now = Date.now()
+    // localStorage kept the newest category first
+    ;(data.categories ?? []).forEach((cat, index) => {
+      counts.categories += insertCategory.run(cat.id, cat.name, cat.icon || "folder", now - index).changes
+    })
+    for (const session of data.sessions ?? []) {
+      const createdAt = session.createdAt || now
+      const title = session.title || DEFAULT_SESSION_TITLE
+      const inserted = insertSession.run(session.id, title, session.categoryId, createdAt, createdAt).changes
+      if (!inserted) continue
+      counts.sessions++
+      ;(session.turns ?? []).forEach((turn, position) => {
+        counts.turns += insertTurn.run(turn.id, session.id, position, JSON.stringify(turn)).changes
+      })
+    }
+  })()
+  return counts
+}
+
+export type * from "./types"
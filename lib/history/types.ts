@@ -0,0 +1,37 @@
+export type StoredCategory = {
+  id: string
+  name: string
+  icon: string
+}
+
+// Turns are stored as the JSON the client sends, so new fields don't need a migration
+export type StoredTurn = { id: string } & Record<string, unknown>
+
+export type SessionSummary = {
+  id: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  categoryId: string
+  turnCount: number
+  // summed over the turns' usage summaries
+  totalTokens: number
+  costUsd: number
+}
+
+// Model-written summary of the first `turns` turns of a session, which no longer go to the model verbatim
+export type ConversationSummary = {
+  text: string
+  turns: number
+}
+
+export type StoredSession = SessionSummary & {
+  turns: StoredTurn[]
+  summary?: ConversationSummary
+}
+
+// What older clients kept in localStorage
+export type LegacyImport = {
+  categories?: StoredCategory[]
+  sessions?: Array<{ id: string; title?: string; createdAt?: number; categoryId: string; turns?: StoredTurn[] }>
+}
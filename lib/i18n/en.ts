@@ -0,0 +1,129 @@
+import type { Messages } from "./vi"
+
+export const en: Messages = {
+  languageName: "English",
+  dateLocale: "en-US",
+
+  ui: {
+    newChat: "New chat",
+    searchChats: "Search chats…",
+    newCategory: "New topic",
+    newCategoryPrompt: "Name of the new topic:",
+    noCategories: "No topics yet. Create one.",
+    knowledgeBase: "Topic documents",
+    knowledgeBaseHint: "Every chat in this topic can use them",
+    noDocuments: "No documents yet",
+    addDocuments: "Add documents",
+    reindex: "Re-index",
+    reindexAll: "Re-index all",
+    documentChunks: "{count} chunks",
+    removeDocumentConfirm: "Remove {name} from this topic?",
+    documentsSkipped: "These files can't be read as text and were not added:\n{names}",
+    chats: "Chats",
+    untitledSession: "Conversation",
+    newSessionTitle: "New conversation",
+    rename: "Rename",
+    renamePrompt: "Conversation name:",
+    delete: "Delete",
+    deleteConfirm: "Delete this chat?",
+    noChatsInCategory: "No chats in this topic",
+    openMenu: "Open menu",
+    sessionTotal: "Conversation total",
+    clearConversation: "Clear conversation",
+    emptyTitle: "Start a conversation",
+    emptyHint: "Type a question below to get an answer.",
+    emptySupports: "Supports: images and files",
+    loading: "Working...",
+    openActions: "Open actions menu",
+    options: "Options",
+    deepResearch: "Deep research",
+    disableDeepResearch: "Turn off deep research",
+    toggleDeepSearch: "Toggle DeepSearch",
+    answerFormat: "Answer format",
+    plainTextAnswer: "Answer in plain text",
+    formats: { text: "Plain text", markdown: "Markdown", json: "JSON" },
+    workflow: "Workflow",
+    activeWorkflow: "Active",
+    language: "Language",
+    answerInQuestionLanguage: "Answer in the question's language",
+    answerInUiLanguage: "Answer in the interface language",
+    inputPlaceholder: "Type your question…",
+    attachFile: "Attach file",
+    removeFile: "Remove file",
+    send: "Send",
+    showWorkflow: "Show workflow",
+    hideWorkflow: "Hide workflow",
+    originalQuestion: "Original question",
+    legacyRewriteStep: "ChatGPT writes the prompt",
+    stepTokens: "{input} in / {output} out",
+    usageTitle: "{input} tokens in, {output} tokens out",
+    exportData: "Export",
+    downloadPng: "PNG",
+    downloadCsv: "CSV",
+    chartDownloadPng: "Download the chart as an image",
+    chartDownloadCsv: "Download the chart's data",
+    createdAt: "Created",
+    fileTooLarge: "{name}: File is too large (max 100MB)",
+    fileUnsupported: "{name}: Unsupported format",
+    filesRejected: "Some files could not be uploaded:\n{errors}",
+    fileProcessingError: "Could not process file: {error}",
+    unknownError: "An unknown error occurred",
+    noResponse: "No response",
+    quotaError: "API limit exceeded. Please try again later or switch to another model.",
+    authError: "API authentication failed. Please check the configuration.",
+    networkError: "Network error. Please try again.",
+    errorPrefix: "❌ Error: {error}",
+    templatesUsed: "Prompt templates",
+    summarizedTurns: "{count} earlier turns summarized",
+  },
+
+  admin: {
+    title: "Prompt templates",
+    backToChat: "Back to chat",
+    selectTemplate: "Pick a prompt template to edit",
+    builtIn: "built-in",
+    builtInVersion: "Original text from the code",
+    current: "In use",
+    unsaved: "Unsaved",
+    notePlaceholder: "Change note (optional)",
+    save: "Save new version",
+    saved: "Saved v{version}",
+    preview: "Preview",
+    sampleInput: "Sample input",
+    noVariables: "This template uses no variables",
+    missingVariables: "No value yet for: {names}",
+    versions: "Version history",
+    open: "Open",
+    rollback: "Restore",
+    rollbackConfirm: "Restore v{version}? Its text will be saved as a new version.",
+    restoredFrom: "restored from v{version}",
+    loadError: "Could not load prompt templates: {error}",
+    saveError: "Could not save: {error}",
+  },
+
+  answer: {
+    referencesHeading: "References",
+    noReferences: "(none)",
+    noUrl: "(no URL)",
+    source: "Source {n}",
+    user: "User",
+    assistant: "Assistant",
+  },
+
+  files: {
+    page: "Page {page}",
+  },
+
+  progress: {
+    planning: "Analyzing the question and planning searches",
+    round: "Round {round}: searching {count} queries",
+    collected: "Collected {count} sources",
+    reading: "Reading {count} sources",
+    researchOutput: "{queries} queries, {sources} sources",
+    noSearchSummary: "Search provider did not return a summary.",
+    summarizing: "Summarizing the earlier conversation",
+    tool: "Using the {name} tool",
+    retrieving: "Searching the documents",
+    retrieved: "{count} excerpts from {documents} documents",
+  },
+}
@@ -0,0 +1,46 @@
+import { en } from "./en"
+import { vi, type Messages } from "./vi"
+
+// Message catalogs for the UI and for the text the server adds to answers. Shared by the client and the
+// server, so this module must stay free of server-only imports.
+
+export const LOCALES = ["vi", "en"] as const
+export type Locale = (typeof LOCALES)[number]
+export const DEFAULT_LOCALE: Locale = "vi"
+
+export type { Messages }
+
+const CATALOGS: Record<Locale, Messages> = { vi, en }
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (LOCALES as readonly string[]).includes(value)
+}
+
+export function getMessages(locale: Locale = DEFAULT_LOCALE): Messages {
+  return CATALOGS[locale] ?? CATALOGS[DEFAULT_LOCALE]
+}
+
+// Fills `{name}` placeholders, the same syntax workflow prompts use
+export function interpolate(message: string, vars: Record<string, string | number>) {
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match))
+}
+
+// Letters only Vietnamese uses; plain "à" or "é" also show up in French or Spanish
+const VIETNAMESE_LETTERS = /[ăâđêôơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/giu
+// Frequent words of questions typed without diacritics, which the letters above miss
+const VIETNAMESE_WORDS =
+  /\b(la|gi|khong|cua|va|cho|duoc|nhung|toi|ban|nao|nhu|voi|trong|mot|cac|nhieu|bao|sao|tai|vi|the|hay|lam|co)\b/gi
+const ENGLISH_WORDS =
+  /\b(the|is|are|was|what|how|why|which|who|when|where|can|could|do|does|did|and|of|to|in|for|with|please|you|i|my|it|this|that)\b/gi
+
+// Best guess at the language of a question; undefined when it is neither Vietnamese nor English or too short
+// to tell. Unaccented words like "the" (thế) exist in both, so one match is not enough.
+export function detectLanguage(text: string): Locale | undefined {
+  const sample = text.toLowerCase()
+  if ((sample.match(VIETNAMESE_LETTERS)?.length ?? 0) >= 2) return "vi"
+  const vietnamese = sample.match(VIETNAMESE_WORDS)?.length ?? 0
+  const english = sample.match(ENGLISH_WORDS)?.length ?? 0
+  if (english >= 2 && english > vietnamese) return "en"
+  if (vietnamese >= 2 && vietnamese > english) return "vi"
+  return undefined
+}
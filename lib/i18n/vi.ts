@@ -0,0 +1,135 @@
+// Vietnamese, the default locale. Its shape is the `Messages` type every other catalog has to match.
+
+export const vi = {
+  languageName: "Tiếng Việt",
+  dateLocale: "vi-VN",
+
+  ui: {
+    newChat: "Đoạn chat mới",
+    searchChats: "Tìm kiếm đoạn chat…",
+    newCategory: "Tạo chủ đề",
+    newCategoryPrompt: "Tên chủ đề mới:",
+    noCategories: "Chưa có chủ đề. Hãy tạo mới.",
+    knowledgeBase: "Tài liệu của chủ đề",
+    knowledgeBaseHint: "Mọi cuộc trò chuyện trong chủ đề đều dùng được",
+    noDocuments: "Chưa có tài liệu",
+    addDocuments: "Thêm tài liệu",
+    reindex: "Lập chỉ mục lại",
+    reindexAll: "Lập chỉ mục lại tất cả",
+    documentChunks: "{count} đoạn",
+    removeDocumentConfirm: "Xoá {name} khỏi chủ đề này?",
+    documentsSkipped: "Không đọc được nội dung các file sau nên chưa thêm:\n{names}",
+    chats: "Đoạn chat",
+    untitledSession: "Cuộc trò chuyện",
+    newSessionTitle: "Cuộc trò chuyện mới",
+    rename: "Đổi tên",
+    renamePrompt: "Đặt tên cuộc trò chuyện:",
+    delete: "Xoá",
+    deleteConfirm: "Xoá đoạn chat này?",
+    noChatsInCategory: "Không có đoạn chat trong chủ đề này",
+    openMenu: "Mở menu",
+    sessionTotal: "Tổng của cuộc trò chuyện",
+    clearConversation: "Xoá hội thoại",
+    emptyTitle: "Bắt đầu cuộc trò chuyện",
+    emptyHint: "Gõ câu hỏi bên dưới để nhận kết quả.",
+    emptySupports: "Hỗ trợ: ảnh và tệp",
+    loading: "Đang xử lý...",
+    openActions: "Mở menu hành động",
+    options: "Tuỳ chọn",
+    deepResearch: "Nghiên cứu sâu",
+    disableDeepResearch: "Tắt nghiên cứu sâu",
+    toggleDeepSearch: "Bật tắt DeepSearch",
+    answerFormat: "Định dạng trả lời",
+    plainTextAnswer: "Trả lời bằng văn bản thuần",
+    formats: { text: "Văn bản thuần", markdown: "Markdown", json: "JSON" },
+    workflow: "Quy trình xử lý",
+    activeWorkflow: "Đang hoạt động",
+    language: "Ngôn ngữ",
+    answerInQuestionLanguage: "Trả lời theo ngôn ngữ câu hỏi",
+    answerInUiLanguage: "Trả lời bằng ngôn ngữ giao diện",
+    inputPlaceholder: "Nhập câu hỏi của bạn…",
+    attachFile: "Đính kèm tệp",
+    removeFile: "Xoá tệp",
+    send: "Gửi",
+    showWorkflow: "Xem luồng xử lý",
+    hideWorkflow: "Ẩn luồng xử lý",
+    originalQuestion: "Câu hỏi gốc",
+    legacyRewriteStep: "ChatGPT sinh prompt",
+    stepTokens: "{input} vào / {output} ra",
+    usageTitle: "{input} tokens vào, {output} tokens ra",
+    exportData: "Xuất dữ liệu",
+    downloadPng: "PNG",
+    downloadCsv: "CSV",
+    chartDownloadPng: "Tải biểu đồ dạng ảnh",
+    chartDownloadCsv: "Tải dữ liệu của biểu đồ",
+    createdAt: "Tạo lúc",
+    fileTooLarge: "{name}: Kích thước quá lớn (tối đa 100MB)",
+    fileUnsupported: "{name}: Định dạng không hỗ trợ",
+    filesRejected: "Một số file không thể tải lên:\n{errors}",
+    fileProcessingError: "Lỗi xử lý file: {error}",
+    unknownError: "Đã xảy ra lỗi không xác định",
+    noResponse: "Không có phản hồi",
+    quotaError: "Đã vượt quá giới hạn API. Vui lòng thử lại sau hoặc chuyển sang model khác.",
+    authError: "Lỗi xác thực API. Vui lòng kiểm tra cấu hình.",
+    networkError: "Lỗi kết nối mạng. Vui lòng thử lại.",
+    errorPrefix: "❌ Lỗi: {error}",
+    templatesUsed: "Mẫu prompt",
+    summarizedTurns: "Đã tóm tắt {count} lượt trước",
+  },
+
+  // Prompt template admin page (/admin/prompts)
+  admin: {
+    title: "Mẫu prompt",
+    backToChat: "Về trang chat",
+    selectTemplate: "Chọn một mẫu prompt để chỉnh sửa",
+    builtIn: "mặc định",
+    builtInVersion: "Bản gốc trong mã nguồn",
+    current: "Đang dùng",
+    unsaved: "Chưa lưu",
+    notePlaceholder: "Ghi chú thay đổi (không bắt buộc)",
+    save: "Lưu phiên bản mới",
+    saved: "Đã lưu v{version}",
+    preview: "Xem trước",
+    sampleInput: "Dữ liệu mẫu",
+    noVariables: "Mẫu này không dùng biến nào",
+    missingVariables: "Chưa có giá trị cho: {names}",
+    versions: "Lịch sử phiên bản",
+    open: "Mở",
+    rollback: "Khôi phục",
+    rollbackConfirm: "Khôi phục v{version}? Nội dung này sẽ được lưu thành một phiên bản mới.",
+    restoredFrom: "khôi phục từ v{version}",
+    loadError: "Không tải được mẫu prompt: {error}",
+    saveError: "Không lưu được: {error}",
+  },
+
+  // Text the server writes into answers, in the language of the answer
+  answer: {
+    referencesHeading: "Nguồn tham khảo",
+    noReferences: "(không có)",
+    noUrl: "(không có URL)",
+    source: "Nguồn {n}",
+    user: "Người dùng",
+    assistant: "Trợ lý",
+  },
+
+  // Titles the server gives parts of attached files; the text extracted from files is written in the default locale
+  files: {
+    page: "Trang {page}",
+  },
+
+  // Workflow progress, in the language of the UI
+  progress: {
+    planning: "Đang phân tích câu hỏi và lập kế hoạch tìm kiếm",
+    round: "Vòng {round}: tìm kiếm {count} truy vấn",
+    collected: "Đã thu thập {count} nguồn",
+    reading: "Đang đọc {count} nguồn",
+    researchOutput: "{queries} truy vấn, {sources} nguồn",
+    noSearchSummary: "Nhà cung cấp tìm kiếm không trả về phần tóm tắt.",
+    summarizing: "Tóm tắt phần đầu cuộc trò chuyện",
+    tool: "Đang dùng công cụ {name}",
+    retrieving: "Tìm trong tài liệu",
+    retrieved: "{count} đoạn trích từ {documents} tài liệu",
+  },
+}
+
+export type Messages = typeof vi
@@ -0,0 +1,30 @@
+import type { Provider } from "./types"
+
+// The registered providers. Kept apart from the registry, which imports server-only code, so lib/contracts can
+// check provider ids in the browser bundle as well.
+
+export type Capability = "chat" | "search" | "extract" | "upload"
+
+export const providers = new Map<string, Provider>()
+
+export function registerProvider(provider: Provider) {
+  providers.set(provider.id, provider)
+}
+
+export function listProviders() {
+  return Array.from(providers.values())
+}
+
+export function hasCapability(provider: Provider, capability: Capability) {
+  if (capability === "chat") return typeof provider.chat === "function"
+  if (capability === "search") return typeof provider.search === "function"
+  if (capability === "extract") return typeof provider.extract === "function"
+  return typeof provider.uploadFiles === "function"
+}
+
+// Ids of the registered providers that can do `capability`, configured or not
+export function providerIds(capability: Capability) {
+  return listProviders()
+    .filter((provider) => hasCapability(provider, capability))
+    .map((provider) => provider.id)
+}
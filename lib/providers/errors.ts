@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server"
+
+export type ProviderErrorType =
+  | "missing_api_key"
+  | "invalid_key"
+  | "quota_exceeded"
+  | "network_error"
+  | "api_error"
+  | "unsupported"
+  | "perplexity_search_error"
+  | "search_error"
+
+export class ProviderError extends Error {
+  readonly provider: string
+  readonly status: number
+  readonly errorType: ProviderErrorType
+  readonly details?: unknown
+  readonly fallbackSuggestion?: string
+  // from a Retry-After header or the provider's retry hint
+  readonly retryAfterMs?: number
+
+  constructor(
+    provider: string,
+    message: string,
+    {
+      status = 500,
+      errorType = "api_error",
+      details,
+      fallbackSuggestion,
+      retryAfterMs,
+    }: {
+      status?: number
+      errorType?: ProviderErrorType
+      details?: unknown
+      fallbackSuggestion?: string
+      retryAfterMs?: number
+    } = {},
+  ) {
+    super(message)
+    this.name = "ProviderError"
+    this.provider = provider
+    this.status = status
+    this.errorType = errorType
+    this.details = details
+    this.fallbackSuggestion = fallbackSuggestion
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+export function missingKeyError(provider: string, label: string) {
+  return new ProviderError(provider, `${label} API key not configured`, {
+    status: 500,
+    errorType: "missing_api_key",
+  })
+}
+
+export function networkError(provider: string, label: string, error: unknown) {
+  return new ProviderError(provider, `Network error when calling ${label} API`, {
+    status: 500,
+    errorType: "network_error",
+    details: error instanceof Error ? error.message : String(error),
+  })
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined) {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+// Single place that turns any thrown error into the JSON error envelope the client expects
+export function providerErrorBody(error: unknown, fallbackMessage: string, fallbackType = "api_error") {
+  if (error instanceof ProviderError) {
+    return {
+      status: error.status,
+      body: {
+        error: error.message,
+        errorType: error.errorType as string,
+        ...(error.details !== undefined ? { details: error.details } : {}),
+        ...(error.fallbackSuggestion ? { fallbackSuggestion: error.fallbackSuggestion } : {}),
+      },
+    }
+  }
+  const message = error instanceof Error && error.message ? error.message : fallbackMessage
+  return { status: 500, body: { error: message, errorType: fallbackType } }
+}
+
+export function providerErrorResponse(error: unknown, fallbackMessage: string, fallbackType = "api_error") {
+  const { status, body } = providerErrorBody(error, fallbackMessage, fallbackType)
+  return NextResponse.json(body, { status })
+}
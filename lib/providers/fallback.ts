@@ -0,0 +1,63 @@
+import { getProvider, resolveModel } from "./registry"
+import { withRetry } from "./retry"
+import type { ChatRequest, ChatResult } from "./types"
+
+export type ModelRoute = { providerId: string; model: string }
+
+export type FallbackResult = ChatResult & {
+  answeredBy: ModelRoute
+  // models tried before the one that answered, with the error each one gave
+  failures: Array<ModelRoute & { error: string }>
+}
+
+// MODEL_FALLBACK_CHAIN lists model names from MODEL_MAPPING, e.g. "gemini-2.5-flash-lite,gemini-2.0-flash,gpt-4o-mini".
+// A request for a model in the chain falls back to the models after it; any other model falls back to the whole chain.
+export function fallbackRoutes(primary: ModelRoute): ModelRoute[] {
+  const chain = (process.env.MODEL_FALLBACK_CHAIN ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+  const routes = chain.map(resolveModel).filter((route): route is ModelRoute => !!route)
+  const position = routes.findIndex((route) => route.providerId === primary.providerId && route.model === primary.model)
+  const candidates = position >= 0 ? routes.slice(position + 1) : routes
+  return candidates.filter((route) => route.providerId !== primary.providerId || route.model !== primary.model)
+}
+
+// Calls the model with retries; if it still fails, walks the fallback chain. Streaming calls only move on while
+// nothing has been streamed yet, so the client never gets text from two models glued together. `fallback: false`
+// only retries the given model, for calls that continue a conversation another model can't read.
+export async function generateWithFallback(
+  primary: ModelRoute,
+  request: Omit<ChatRequest, "model">,
+  onDelta?: (text: string) => void,
+  options: { fallback?: boolean } = {},
+): Promise<FallbackResult> {
+  let streamed = false
+  const forward = onDelta
+    ? (text: string) => {
+        streamed = true
+        onDelta(text)
+      }
+    : undefined
+  const failures: FallbackResult["failures"] = []
+  const routes = options.fallback === false ? [primary] : [primary, ...fallbackRoutes(primary)]
+  for (const [index, route] of routes.entries()) {
+    try {
+      const provider = getProvider(route.providerId, "chat")
+      const call = { ...request, model: route.model }
+      const result = await withRetry(
+        `${provider.label} ${route.model}`,
+        () => (forward && provider.streamChat ? provider.streamChat(call, forward) : provider.chat!(call)),
+        { canRetry: () => !streamed },
+      )
+      if (failures.length > 0) console.log(`[fallback] Answered by ${route.providerId}/${route.model}`)
+      return { ...result, answeredBy: route, failures }
+    } catch (error) {
+      if (streamed || index === routes.length - 1) throw error
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn(`[fallback] ${route.providerId}/${route.model} failed: ${message}`)
+      failures.push({ ...route, error: message })
+    }
+  }
+  throw new Error("No model available")
+}
@@ -0,0 +1,179 @@
+import {
+  GoogleGenerativeAI,
+  type Content,
+  type FunctionDeclaration,
+  type Part,
+  type ResponseSchema,
+} from "@google/generative-ai"
+import { GoogleAIFileManager } from "@google/generative-ai/server"
+import { missingKeyError, ProviderError } from "./errors"
+import type { ChatRequest, ChatResult, Provider, ProviderMessage, TokenUsage, ToolCall, UploadedFile } from "./types"
+
+const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY
+
+// Documents Gemini can't take inline and that go through the Files API first
+const UPLOAD_MIME_TYPES = [
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/pdf",
+]
+
+// Function to get or create genAI instance with current GOOGLE_API_KEY
+function getGenAI() {
+  if (!GOOGLE_API_KEY) throw missingKeyError("google", "Google")
+  return new GoogleGenerativeAI(GOOGLE_API_KEY)
+}
+
+export function toGeminiContents(messages: ProviderMessage[]): Content[] {
+  return messages.map((msg) => {
+    const role = msg.role === "assistant" ? "model" : "user"
+    if (typeof msg.content === "string") return { role, parts: [{ text: msg.content }] }
+    const parts: Part[] = msg.content.map((part) => {
+      if (part.type === "text") return { text: part.text }
+      if (part.type === "inline") return { inlineData: { mimeType: part.mimeType, data: part.data } }
+      if (part.type === "tool_call") return { functionCall: { name: part.name, args: part.args } }
+      if (part.type === "tool_result")
+        return { functionResponse: { name: part.name, response: { result: part.result } } }
+      return { fileData: { mimeType: part.mimeType, fileUri: part.uri } }
+    })
+    // tool results go back in a "function" turn
+    return { role: parts.some((part) => part.functionResponse) ? "function" : role, parts }
+  })
+}
+
+function toToolCalls(response: any): ToolCall[] | undefined {
+  const calls = response.functionCalls?.()
+  if (!calls?.length) return undefined
+  return calls.map((call: any) => ({ name: call.name, args: (call.args ?? {}) as Record<string, unknown> }))
+}
+
+function toUsage(metadata: any): TokenUsage | undefined {
+  if (!metadata) return undefined
+  const promptTokens = metadata.promptTokenCount ?? 0
+  const outputTokens = metadata.candidatesTokenCount ?? 0
+  return { promptTokens, outputTokens, totalTokens: metadata.totalTokenCount ?? promptTokens + outputTokens }
+}
+
+// Gemini puts its retry hint in a google.rpc.RetryInfo detail, e.g. { retryDelay: "31s" }
+function retryDelayFrom(error: any) {
+  const info = (error?.errorDetails ?? []).find((detail: any) => typeof detail?.retryDelay === "string")
+  const seconds = info ? parseFloat(info.retryDelay) : NaN
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined
+}
+
+function toProviderError(error: any) {
+  if (error instanceof ProviderError) return error
+  console.error("Google GenAI SDK error:", error)
+  const message: string = error?.message || ""
+  if (error?.status === 401 || error?.status === 403 || message.includes("API key")) {
+    return new ProviderError("google", "Invalid Google API key. Please check your configuration.", {
+      status: 401,
+      errorType: "invalid_key",
+    })
+  }
+  if (error?.status === 429 || message.includes("quota") || message.includes("limit")) {
+    return new ProviderError("google", "Google API quota exceeded. Please try again later.", {
+      status: 429,
+      errorType: "quota_exceeded",
+      retryAfterMs: retryDelayFrom(error),
+    })
+  }
+  return new ProviderError("google", message || "Failed to get response from Google Gemini", {
+    status: typeof error?.status === "number" ? error.status : 500,
+  })
+}
+
+function getModel(request: ChatRequest) {
+  return getGenAI().getGenerativeModel({
+    model: request.model,
+    ...(request.system ? { systemInstruction: request.system } : {}),
+    ...(request.tools?.length
+      ? { tools: [{ functionDeclarations: request.tools as unknown as FunctionDeclaration[] }] }
+      : {}),
+    generationConfig: {
+      temperature: request.temperature ?? 0.7,
+      ...(request.topP !== undefined ? { topP: request.topP } : {}),
+      maxOutputTokens: request.maxTokens ?? 2000,
+      ...(request.responseFormat
+        ? {
+            responseMimeType: "application/json",
+            ...(request.responseFormat.schema
+              ? { responseSchema: request.responseFormat.schema as unknown as ResponseSchema }
+              : {}),
+          }
+        : {}),
+    },
+  })
+}
+
+export const googleProvider: Provider = {
+  id: "google",
+  label: "Google Gemini",
+  isConfigured: () => !!GOOGLE_API_KEY,
+  async chat(request): Promise<ChatResult> {
+    try {
+      const result = await getModel(request).generateContent({ contents: toGeminiContents(request.messages) })
+      const response = result.response
+      return {
+        text: response.text(),
+        usage: toUsage(response.usageMetadata),
+        toolCalls: toToolCalls(response),
+        raw: response,
+      }
+    } catch (error) {
+      throw toProviderError(error)
+    }
+  },
+  async streamChat(request, onDelta): Promise<ChatResult> {
+    try {
+      const result = await getModel(request).generateContentStream({ contents: toGeminiContents(request.messages) })
+      let text = ""
+      // text around function calls belongs to the tool round, not the answer
+      let calling = false
+      for await (const chunk of result.stream) {
+        calling ||= !!chunk.functionCalls()?.length
+        const delta = chunk.text()
+        if (delta) {
+          text += delta
+          if (!calling) onDelta(delta)
+        }
+      }
+      const response = await result.response
+      return { text, usage: toUsage(response.usageMetadata), toolCalls: toToolCalls(response), raw: response }
+    } catch (error) {
+      throw toProviderError(error)
+    }
+  },
+  async uploadFiles(files) {
+    if (!GOOGLE_API_KEY) return []
+    const fileManager = new GoogleAIFileManager(GOOGLE_API_KEY)
+    const uploadedFiles: UploadedFile[] = []
+    for (const file of files) {
+      if (!UPLOAD_MIME_TYPES.includes(file.type)) continue
+      try {
+        console.log(`Uploading ${file.name} to Gemini Files API using SDK...`)
+        const uploadResult = await fileManager.uploadFile(Buffer.from(file.data, "base64"), {
+          mimeType: file.type,
+          displayName: file.name,
+        })
+        console.log(`Successfully uploaded ${file.name}:`, {
+          uri: uploadResult.file.uri,
+          name: uploadResult.file.name,
+          mimeType: uploadResult.file.mimeType,
+        })
+        uploadedFiles.push({
+          originalFile: file,
+          fileUri: uploadResult.file.uri,
+          name: uploadResult.file.name,
+          mimeType: uploadResult.file.mimeType,
+        })
+      } catch (error) {
+        console.error(`Error uploading ${file.name}:`, error)
+      }
+    }
+    return uploadedFiles
+  },
+}
@@ -0,0 +1,23 @@
+import { registerProvider } from "./catalog"
+import { googleProvider } from "./google"
+import { openAIProvider } from "./openai"
+import { openRouterProvider } from "./openrouter"
+import { perplexityProvider } from "./perplexity"
+import { tavilyProvider } from "./tavily"
+
+// Built-in backends. New ones only need to implement `Provider` and be registered here.
+registerProvider(openAIProvider)
+registerProvider(googleProvider)
+registerProvider(perplexityProvider)
+registerProvider(openRouterProvider)
+registerProvider(tavilyProvider)
+
+export { listProviders, providerIds, registerProvider } from "./catalog"
+export * from "./errors"
+export * from "./fallback"
+export * from "./messages"
+export * from "./pricing"
+export * from "./registry"
+export * from "./retry"
+export * from "./search"
+export type * from "./types"
@@ -0,0 +1,67 @@
+import type { ContentPart, FileAttachment, ProviderMessage, UploadedFile } from "./types"
+
+function toPart(item: any): ContentPart | null {
+  if (item?.type === "text" && typeof item.text === "string") return { type: "text", text: item.text }
+  if (item?.type === "image_url" && item.image_url?.url) {
+    const matches = String(item.image_url.url).match(/^data:([^;]+);base64,(.+)$/)
+    if (matches) return { type: "inline", mimeType: matches[1], data: matches[2] }
+    return null
+  }
+  if (item?.inlineData?.data && item?.inlineData?.mimeType) {
+    return { type: "inline", mimeType: item.inlineData.mimeType, data: item.inlineData.data }
+  }
+  if (item?.fileData?.fileUri && item?.fileData?.mimeType) {
+    return { type: "file", mimeType: item.fileData.mimeType, uri: item.fileData.fileUri }
+  }
+  return null
+}
+
+// Turns chat messages as posted by the client (OpenAI-like) into provider messages
+export function normalizeMessages(messages: any[]): ProviderMessage[] {
+  return (messages || [])
+    .filter((msg) => msg?.role !== "system")
+    .map((msg) => {
+      const role = msg?.role === "assistant" || msg?.role === "model" ? "assistant" : "user"
+      if (typeof msg?.content === "string") return { role, content: msg.content }
+      if (Array.isArray(msg?.content)) {
+        return { role, content: msg.content.map(toPart).filter(Boolean) as ContentPart[] }
+      }
+      return { role, content: "" }
+    })
+}
+
+export function messageText(message: ProviderMessage | undefined) {
+  if (!message) return ""
+  if (typeof message.content === "string") return message.content
+  return message.content
+    .filter((part): part is Extract<ContentPart, { type: "text" }> => part.type === "text")
+    .map((part) => part.text)
+    .join("\n")
+}
+
+export function filesToParts(files: FileAttachment[]): ContentPart[] {
+  return files.map((file) => {
+    // Check if data is a URL (for PDF URLs) or base64 data
+    if (typeof file.data === "string" && file.data.startsWith("http")) {
+      return { type: "file", mimeType: file.type, uri: file.data, name: file.name }
+    }
+    return { type: "inline", mimeType: file.type, data: file.data, name: file.name }
+  })
+}
+
+export function uploadedFilesToParts(files: UploadedFile[]): ContentPart[] {
+  return files.map((file) => ({ type: "file", mimeType: file.mimeType, uri: file.fileUri, name: file.name }))
+}
+
+export function appendToLastUser(messages: ProviderMessage[], parts: ContentPart[]) {
+  if (!parts.length) return messages
+  const next = [...messages]
+  for (let i = next.length - 1; i >= 0; i--) {
+    if (next[i].role !== "user") continue
+    const content = next[i].content
+    const existing: ContentPart[] = typeof content === "string" ? [{ type: "text", text: content }] : content
+    next[i] = { ...next[i], content: [...existing, ...parts] }
+    break
+  }
+  return next
+}
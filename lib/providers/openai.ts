@@ -0,0 +1,148 @@
+import { readEventStream } from "@/lib/sse"
+import { missingKeyError, networkError, parseRetryAfter, ProviderError } from "./errors"
+import type {
+  ChatRequest,
+  ChatResult,
+  ContentPart,
+  Provider,
+  ProviderMessage,
+  ResponseFormat,
+  TokenUsage,
+} from "./types"
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY
+const OPENAI_BASE_URL = "https://api.openai.com/v1"
+
+// Converts one of our parts into an OpenAI chat content item. Files are rendered by the caller.
+export function toOpenAIContent(
+  content: ProviderMessage["content"],
+  renderFile: (part: Extract<ContentPart, { type: "inline" | "file" }>) => any,
+) {
+  if (typeof content === "string") return content
+  return content.map((part) => {
+    if (part.type === "text") return { type: "text", text: part.text }
+    // tool rounds from a Gemini attempt reach OpenAI-compatible fallbacks as plain text
+    if (part.type === "tool_call") return { type: "text", text: `[${part.name}(${JSON.stringify(part.args)})]` }
+    if (part.type === "tool_result") return { type: "text", text: `[${part.name}: ${JSON.stringify(part.result)}]` }
+    if (part.type === "inline" && part.mimeType.startsWith("image/")) {
+      return { type: "image_url", image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+    }
+    return renderFile(part)
+  })
+}
+
+export function toOpenAIUsage(usage: any): TokenUsage | undefined {
+  if (!usage) return undefined
+  const promptTokens = usage.prompt_tokens ?? 0
+  const outputTokens = usage.completion_tokens ?? 0
+  return { promptTokens, outputTokens, totalTokens: usage.total_tokens ?? promptTokens + outputTokens }
+}
+
+// Reads an OpenAI-compatible SSE completion, forwarding each delta
+export async function readCompletionStream(body: ReadableStream<Uint8Array>, onDelta: (text: string) => void) {
+  let text = ""
+  let usage: TokenUsage | undefined
+  for await (const chunk of readEventStream(body)) {
+    const delta = chunk?.choices?.[0]?.delta?.content
+    if (typeof delta === "string" && delta) {
+      text += delta
+      onDelta(delta)
+    }
+    if (chunk?.usage) usage = toOpenAIUsage(chunk.usage)
+  }
+  return { text, usage }
+}
+
+// json_object needs the word "JSON" somewhere in the messages; the workflow's format rules take care of that
+export function toOpenAIResponseFormat(format?: ResponseFormat) {
+  if (!format) return undefined
+  return format.schema
+    ? { type: "json_schema", json_schema: { name: "response", schema: format.schema } }
+    : { type: "json_object" }
+}
+
+function buildBody(request: ChatRequest, stream: boolean) {
+  const messages: any[] = request.messages.map((msg) => ({
+    role: msg.role,
+    content: toOpenAIContent(msg.content, (part) => ({
+      type: "text",
+      text: `[File: ${part.name ?? "attachment"} (${part.mimeType}) - Note: OpenAI cannot directly process this file type. Please extract text content manually.]`,
+    })),
+  }))
+  if (request.system) messages.unshift({ role: "system", content: request.system })
+  return {
+    model: request.model,
+    messages,
+    stream,
+    ...(stream ? { stream_options: { include_usage: true } } : {}),
+    temperature: request.temperature ?? 0.7,
+    ...(request.topP !== undefined ? { top_p: request.topP } : {}),
+    max_tokens: request.maxTokens ?? 2000,
+    ...(request.responseFormat ? { response_format: toOpenAIResponseFormat(request.responseFormat) } : {}),
+  }
+}
+
+async function send(request: ChatRequest, stream: boolean) {
+  if (!OPENAI_API_KEY) throw missingKeyError("openai", "OpenAI")
+  console.log("Sending request to OpenAI:", { model: request.model, messagesCount: request.messages.length, stream })
+  let response: Response
+  try {
+    response = await fetch(`${OPENAI_BASE_URL}/chat/completions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${OPENAI_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(buildBody(request, stream)),
+    })
+  } catch (error) {
+    console.error("OpenAI request failed:", error)
+    throw networkError("openai", "OpenAI", error)
+  }
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    console.error("OpenAI API error:", errorData)
+    if (errorData.error?.code === "insufficient_quota") {
+      throw new ProviderError(
+        "openai",
+        "OpenAI quota exceeded. Please check your billing or try using Gemini instead.",
+        {
+          status: 402,
+          errorType: "quota_exceeded",
+          fallbackSuggestion: "gemini",
+        },
+      )
+    }
+    if (errorData.error?.code === "invalid_api_key") {
+      throw new ProviderError("openai", "Invalid OpenAI API key. Please check your configuration.", {
+        status: 401,
+        errorType: "invalid_key",
+      })
+    }
+    throw new ProviderError("openai", errorData.error?.message || "Failed to get response from OpenAI", {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+    })
+  }
+  return response
+}
+
+export const openAIProvider: Provider = {
+  id: "openai",
+  label: "OpenAI",
+  isConfigured: () => !!OPENAI_API_KEY,
+  async chat(request): Promise<ChatResult> {
+    const response = await send(request, false)
+    const data = await response.json()
+    return {
+      text: String(data?.choices?.[0]?.message?.content ?? ""),
+      usage: toOpenAIUsage(data?.usage),
+      raw: data,
+    }
+  },
+  async streamChat(request, onDelta): Promise<ChatResult> {
+    const response = await send(request, true)
+    if (!response.body) throw new ProviderError("openai", "OpenAI returned an empty stream")
+    return readCompletionStream(response.body, onDelta)
+  },
+}
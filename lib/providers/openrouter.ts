@@ -0,0 +1,104 @@
+import { missingKeyError, networkError, parseRetryAfter, ProviderError } from "./errors"
+import { readCompletionStream, toOpenAIContent, toOpenAIResponseFormat, toOpenAIUsage } from "./openai"
+import type { ChatRequest, ChatResult, Provider } from "./types"
+
+const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY
+const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1"
+
+if (!OPENROUTER_API_KEY) {
+  console.warn("OPENROUTER_API_KEY is not set")
+}
+
+function buildBody(request: ChatRequest, stream: boolean) {
+  let hasFiles = false
+  const messages: any[] = request.messages.map((msg) => ({
+    role: msg.role,
+    content: toOpenAIContent(msg.content, (part) => {
+      hasFiles = true
+      return {
+        type: "file",
+        file: {
+          filename: part.name ?? "attachment",
+          file_data: part.type === "file" ? part.uri : `data:${part.mimeType};base64,${part.data}`,
+        },
+      }
+    }),
+  }))
+  if (request.system) messages.unshift({ role: "system", content: request.system })
+  const body: any = {
+    model: request.model,
+    messages,
+    stream,
+    temperature: request.temperature ?? 0.7,
+    max_tokens: request.maxTokens ?? 2000,
+  }
+  if (request.responseFormat) body.response_format = toOpenAIResponseFormat(request.responseFormat)
+  if (hasFiles) {
+    body.plugins = [
+      {
+        id: "file-parser",
+        pdf: {
+          engine: "pdf-text", // Free option for well-structured PDFs
+          // engine: 'mistral-ocr' // $2 per 1,000 pages for scanned PDFs
+        },
+      },
+    ]
+  }
+  return body
+}
+
+async function send(request: ChatRequest, stream: boolean) {
+  if (!OPENROUTER_API_KEY) throw missingKeyError("openrouter", "OpenRouter")
+  const body = buildBody(request, stream)
+  console.log("Sending request to OpenRouter:", {
+    model: request.model,
+    messagesCount: body.messages.length,
+    plugins: body.plugins,
+  })
+  let response: Response
+  try {
+    response = await fetch(`${OPENROUTER_BASE_URL}/chat/completions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${OPENROUTER_API_KEY}`,
+        "Content-Type": "application/json",
+        "HTTP-Referer": process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000",
+        "X-Title": "ORS Bot",
+      },
+      body: JSON.stringify(body),
+    })
+  } catch (error) {
+    console.error("OpenRouter request failed:", error)
+    throw networkError("openrouter", "OpenRouter", error)
+  }
+  if (!response.ok) {
+    const errorData = await response.text()
+    console.error("OpenRouter API error:", errorData)
+    throw new ProviderError("openrouter", "Failed to get response from AI model", {
+      status: response.status,
+      errorType: response.status === 401 ? "invalid_key" : response.status === 402 ? "quota_exceeded" : "api_error",
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+    })
+  }
+  return response
+}
+
+export const openRouterProvider: Provider = {
+  id: "openrouter",
+  label: "OpenRouter",
+  isConfigured: () => !!OPENROUTER_API_KEY,
+  async chat(request): Promise<ChatResult> {
+    const response = await send(request, false)
+    const data = await response.json()
+    return {
+      text: String(data?.choices?.[0]?.message?.content ?? ""),
+      usage: toOpenAIUsage(data?.usage),
+      raw: data,
+    }
+  },
+  async streamChat(request, onDelta): Promise<ChatResult> {
+    const response = await send(request, true)
+    if (!response.body) throw new ProviderError("openrouter", "OpenRouter returned an empty stream")
+    return readCompletionStream(response.body, onDelta)
+  },
+}
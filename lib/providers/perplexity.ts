@@ -0,0 +1,166 @@
+import { ProviderError } from "./errors"
+import { toOpenAIUsage } from "./openai"
+import type { Provider, SearchReference, SearchResult } from "./types"
+
+const PERPLEXITY_API_KEY = process.env.PERPLEXITY_API_KEY ?? process.env.NEXT_PUBLIC_PERPLEXITY_API_KEY
+const PERPLEXITY_MODEL = process.env.PERPLEXITY_MODEL ?? process.env.NEXT_PUBLIC_PERPLEXITY_MODEL
+const DEFAULT_PERPLEXITY_MODEL = "sonar-pro"
+
+function getPerplexityConfig() {
+  const apiKey = PERPLEXITY_API_KEY?.trim() || undefined
+  const model = PERPLEXITY_MODEL?.trim() || DEFAULT_PERPLEXITY_MODEL
+  return { apiKey, model }
+}
+
+// Every Perplexity failure surfaces the same way so workflows can show (or fall back on) it
+function searchError(details: { type: string; message: string; [key: string]: unknown }) {
+  return new ProviderError("perplexity", details.message || "Perplexity search failed.", {
+    status: 502,
+    errorType: "perplexity_search_error",
+    details,
+  })
+}
+
+const extractText = (value: any): string => {
+  if (!value) return ""
+  if (typeof value === "string") return value
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => extractText(item?.text ?? item?.content ?? item?.value ?? item))
+      .filter(Boolean)
+      .join("\n")
+  }
+  if (typeof value === "object") {
+    if (value.text) return extractText(value.text)
+    if (value.content) return extractText(value.content)
+    if (value.value) return extractText(value.value)
+    if (Array.isArray(value.parts)) return extractText(value.parts)
+  }
+  return ""
+}
+
+async function search(query: string): Promise<SearchResult> {
+  const { apiKey, model } = getPerplexityConfig()
+  if (!apiKey) {
+    console.warn("Perplexity API key not configured, skipping search")
+    throw searchError({ type: "missing_api_key", message: "Perplexity API key is not configured." })
+  }
+  let response: Response
+  try {
+    console.log("[Perplexity] Searching for:", query.substring(0, 100) + "...")
+    response = await fetch("https://api.perplexity.ai/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          {
+            role: "system",
+            content: "You are a research assistant. Use the latest information you can find and cite clear sources.",
+          },
+          {
+            role: "user",
+            content: `Find the most recent information for the question below and return a concise summary with reliable sources.\n\nQUESTION: ${query}`,
+          },
+        ],
+        temperature: 0.2,
+        top_p: 0.8,
+        top_k: 0,
+        stream: false,
+      }),
+    })
+  } catch (error) {
+    console.error("[Perplexity] Search error:", error)
+    throw searchError({
+      type: "perplexity_network_error",
+      message: error instanceof Error ? error.message : String(error),
+    })
+  }
+  if (!response.ok) {
+    const rawErrorText = await response.text().catch(() => "")
+    let parsedError: any = null
+    if (rawErrorText) {
+      try {
+        parsedError = JSON.parse(rawErrorText)
+      } catch {
+        parsedError = null
+      }
+    }
+    const apiErrorMessage =
+      parsedError?.error?.message || parsedError?.message || rawErrorText || "Perplexity API error"
+    console.error("[Perplexity] Search API error:", response.status, response.statusText, apiErrorMessage)
+    throw searchError({
+      type: "perplexity_api_error",
+      status: response.status,
+      statusText: response.statusText,
+      message: apiErrorMessage,
+      raw: parsedError ?? (rawErrorText || null),
+    })
+  }
+  const data = await response.json()
+  const choice = data.choices?.[0] || null
+  const message = choice?.message
+  let summary = extractText(message?.content)
+  if (!summary && typeof choice?.text === "string") {
+    summary = choice.text
+  }
+  if (!summary && typeof data.answer === "string") {
+    summary = data.answer
+  }
+  if (!summary && Array.isArray(data.output_text)) {
+    summary = data.output_text.join("\n")
+  }
+  summary = summary ? summary.toString().trim() : ""
+  const citationCandidates: any[] = []
+  const pushGroup = (group: any) => {
+    if (Array.isArray(group)) {
+      citationCandidates.push(...group)
+    }
+  }
+  pushGroup((message as any)?.citation_metadata?.citations)
+  pushGroup(choice?.metadata?.citations)
+  pushGroup(choice?.metadata?.sources)
+  pushGroup(choice?.metadata?.web_results)
+  pushGroup(data?.metadata?.citations)
+  pushGroup(data?.citations)
+  pushGroup(data?.sources)
+  pushGroup(data?.web_results)
+  pushGroup(data?.results)
+  const seen = new Set<string>()
+  const results: SearchReference[] = []
+  citationCandidates.forEach((citation: any, index: number) => {
+    let entry: SearchReference | null = null
+    if (typeof citation === "string") {
+      entry = { title: `Source ${index + 1}`, url: citation, content: "" }
+    } else if (citation && typeof citation === "object") {
+      const title = citation.title || citation.source || citation.url || `Source ${index + 1}`
+      const url = citation.url || citation.source || citation.link || ""
+      const content = citation.snippet || citation.text || citation.content || citation.summary || ""
+      entry = { title, url, content }
+    }
+    if (entry) {
+      const key = `${entry.url || ""}|${entry.title}`
+      if (!seen.has(key)) {
+        seen.add(key)
+        results.push(entry)
+      }
+    }
+  })
+  console.log("[Perplexity] Search completed:", {
+    hasSummary: !!summary,
+    summaryPreview: summary ? summary.slice(0, 200) : null,
+    resultsCount: results.length,
+    sampleResults: results.slice(0, 3),
+  })
+  return { answer: summary, results, model: data.model || model, usage: toOpenAIUsage(data.usage), raw: data }
+}
+
+export const perplexityProvider: Provider = {
+  id: "perplexity",
+  label: "Perplexity",
+  isConfigured: () => !!getPerplexityConfig().apiKey,
+  search,
+}
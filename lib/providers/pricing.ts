@@ -0,0 +1,88 @@
+import type { TokenUsage } from "./types"
+
+// USD per million tokens; search APIs also bill a flat fee per request
+export type ModelPrice = {
+  input: number
+  output: number
+  perRequest?: number
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  sonar: { input: 1, output: 1, perRequest: 0.005 },
+  "sonar-pro": { input: 3, output: 15, perRequest: 0.006 },
+  // Tavily has no tokens; one basic search costs one credit
+  tavily: { input: 0, output: 0, perRequest: 0.008 },
+}
+
+let parsedFrom: string | undefined
+let configuredPrices: Record<string, ModelPrice> = {}
+
+// MODEL_PRICES is a JSON object keyed by model name, e.g. {"gpt-4o":{"input":2.5,"output":10}}; it overrides
+// or extends the built-in table
+function configured() {
+  const raw = process.env.MODEL_PRICES?.trim() ?? ""
+  if (raw === parsedFrom) return configuredPrices
+  parsedFrom = raw
+  configuredPrices = {}
+  if (!raw) return configuredPrices
+  try {
+    const parsed = JSON.parse(raw)
+    for (const [model, price] of Object.entries<any>(parsed ?? {})) {
+      if (typeof price?.input === "number" && typeof price?.output === "number") {
+        configuredPrices[model] = price
+      } else {
+        console.warn("[pricing] Ignoring invalid price for", model)
+      }
+    }
+  } catch (error) {
+    console.error("[pricing] MODEL_PRICES is not valid JSON:", error)
+  }
+  return configuredPrices
+}
+
+// Exact name first, then the longest known prefix so dated or suffixed versions ("gpt-4o-2024-08-06") still match.
+// OpenRouter ids ("openai/gpt-4o") are looked up without their vendor prefix.
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const prices = { ...DEFAULT_PRICES, ...configured() }
+  for (const name of [model, model.split("/").pop() ?? model]) {
+    if (prices[name]) return prices[name]
+    const prefix = Object.keys(prices)
+      .filter((key) => name.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0]
+    if (prefix) return prices[prefix]
+  }
+  return undefined
+}
+
+// Estimated USD cost of a call, or undefined when the model has no known price
+export function estimateCost(model: string, usage?: TokenUsage, requests = 0) {
+  const price = getModelPrice(model)
+  if (!price) return undefined
+  const tokens = ((usage?.promptTokens ?? 0) * price.input + (usage?.outputTokens ?? 0) * price.output) / 1_000_000
+  return tokens + requests * (price.perRequest ?? 0)
+}
+
+export function sumUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const present = usages.filter((usage): usage is TokenUsage => !!usage)
+  if (present.length === 0) return undefined
+  return present.reduce(
+    (total, usage) => ({
+      promptTokens: total.promptTokens + usage.promptTokens,
+      outputTokens: total.outputTokens + usage.outputTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+    }),
+    { promptTokens: 0, outputTokens: 0, totalTokens: 0 },
+  )
+}
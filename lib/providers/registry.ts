@@ -0,0 +1,59 @@
+import { hasCapability, providers, type Capability } from "./catalog"
+import { missingKeyError, ProviderError } from "./errors"
+
+type ModelRoute = { provider: string; model: string }
+
+// Model mapping to determine which provider to use
+export const MODEL_MAPPING: Record<string, ModelRoute> = {
+  // OpenAI models
+  "gpt-4o": { provider: "openai", model: "gpt-4o" },
+  "gpt-4o-mini": { provider: "openai", model: "gpt-4o-mini" },
+  "gpt-4-turbo": { provider: "openai", model: "gpt-4-turbo" },
+  "gpt-3.5-turbo": { provider: "openai", model: "gpt-3.5-turbo" },
+  // Google models - updated with newer versions
+  "gemini-2.5-pro": { provider: "google", model: "gemini-2.5-pro" },
+  "gemini-2.5-flash": { provider: "google", model: "gemini-2.5-flash" },
+  "gemini-2.5-flash-lite": { provider: "google", model: "gemini-2.5-flash-lite" },
+  "gemini-2.0-flash": { provider: "google", model: "gemini-2.0-flash" },
+  "gemini-2.0-flash-lite": { provider: "google", model: "gemini-2.0-flash-lite" },
+  "gemini-2.0-pro": { provider: "google", model: "gemini-2.0-pro" },
+  "gemini-1.5-flash": { provider: "google", model: "gemini-1.5-flash" },
+  "gemini-1.5-flash-lite": { provider: "google", model: "gemini-1.5-flash-lite" },
+  "gemini-1.5-pro": { provider: "google", model: "gemini-1.5-pro" },
+  "gemini-1.0-pro": { provider: "google", model: "gemini-1.0-pro" },
+  "gemini-1.0-ultra": { provider: "google", model: "gemini-1.0-ultra" },
+  "gemini-1.0-nano": { provider: "google", model: "gemini-1.0-nano" },
+  "gemini-embedding": { provider: "google", model: "gemini-embedding" },
+  "gemini-2.5-flash-preview-tts": { provider: "google", model: "gemini-2.5-flash-preview-tts" },
+  "gemini-2.5-flash-preview-image-generation": {
+    provider: "google",
+    model: "gemini-2.5-flash-preview-image-generation",
+  },
+  "gemini-2.5-flash-live-preview-04-09": { provider: "google", model: "gemini-2.5-flash-live-preview-04-09" },
+}
+
+export function registerModel(alias: string, route: ModelRoute) {
+  MODEL_MAPPING[alias] = route
+}
+
+// Looks up a provider and makes sure it can do what the caller needs and has its key set
+export function getProvider(id: string, capability?: Capability) {
+  const provider = providers.get(id)
+  if (!provider) {
+    throw new ProviderError(id, `Unknown provider: ${id}`, { status: 500, errorType: "unsupported" })
+  }
+  if (capability && !hasCapability(provider, capability)) {
+    throw new ProviderError(id, `${provider.label} does not support ${capability}`, {
+      status: 500,
+      errorType: "unsupported",
+    })
+  }
+  if (!provider.isConfigured()) throw missingKeyError(provider.id, provider.label)
+  return provider
+}
+
+export function resolveModel(model: string) {
+  const route = MODEL_MAPPING[model]
+  if (!route || !providers.has(route.provider)) return null
+  return { providerId: route.provider, model: route.model }
+}
@@ -0,0 +1,45 @@
+import { envNumber } from "@/lib/env"
+import { ProviderError } from "./errors"
+
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504]
+// Configuration problems won't go away by asking again
+const PERMANENT_TYPES = ["missing_api_key", "invalid_key", "unsupported"]
+
+export type RetryOptions = {
+  retries?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  // checked before each retry; streaming calls can't be retried once text has been sent to the client
+  canRetry?: () => boolean
+}
+
+export function isTransientError(error: unknown) {
+  if (!(error instanceof ProviderError)) return false
+  if (PERMANENT_TYPES.includes(error.errorType)) return false
+  return error.errorType === "network_error" || TRANSIENT_STATUSES.includes(error.status)
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Retries transient provider errors with exponential backoff and jitter. A Retry-After hint from the provider
+// replaces the computed delay; when it asks for longer than maxDelayMs we give up so a fallback can take over.
+export async function withRetry<T>(label: string, call: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const retries = options.retries ?? envNumber("PROVIDER_MAX_RETRIES", 2, 0)
+  const baseDelayMs = options.baseDelayMs ?? envNumber("PROVIDER_RETRY_BASE_MS", 500, 0)
+  const maxDelayMs = options.maxDelayMs ?? envNumber("PROVIDER_RETRY_MAX_MS", 20000, 0)
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call()
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error) || options.canRetry?.() === false) throw error
+      const hinted = (error as ProviderError).retryAfterMs
+      if (hinted !== undefined && hinted > maxDelayMs) throw error
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+      const delay = hinted ?? backoff / 2 + Math.random() * (backoff / 2)
+      console.warn(
+        `[retry] ${label} failed (${(error as ProviderError).status}), retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`,
+      )
+      await sleep(delay)
+    }
+  }
+}
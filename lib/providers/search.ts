@@ -0,0 +1,59 @@
+import { normalizeQuestion, withCache } from "@/lib/cache"
+import { ProviderError } from "./errors"
+import { estimateCost } from "./pricing"
+import { getProvider } from "./registry"
+import { withRetry } from "./retry"
+import type { SearchResult } from "./types"
+
+const DEFAULT_FALLBACK = "tavily"
+
+// Per-request choice wins, then SEARCH_PROVIDER, then whatever the workflow step names
+export function resolveSearchProvider(preferred: string, override?: string) {
+  return override?.trim() || process.env.SEARCH_PROVIDER?.trim() || preferred
+}
+
+function fallbackFor(providerId: string, error: unknown) {
+  if (!(error instanceof ProviderError) || error.errorType !== "perplexity_search_error") return null
+  const fallbackId = process.env.SEARCH_FALLBACK_PROVIDER?.trim() || DEFAULT_FALLBACK
+  if (fallbackId === providerId) return null
+  try {
+    return getProvider(fallbackId, "search")
+  } catch {
+    return null
+  }
+}
+
+async function searchUncached(
+  providerId: string,
+  query: string,
+): Promise<{ providerId: string; result: SearchResult }> {
+  try {
+    const provider = getProvider(providerId, "search")
+    // one quick retry; a longer wait is better spent on the fallback provider
+    return {
+      providerId,
+      result: await withRetry(`${provider.label} search`, () => provider.search!(query), { retries: 1 }),
+    }
+  } catch (error) {
+    const fallback = fallbackFor(providerId, error)
+    if (!fallback) throw error
+    console.warn(`[search] ${providerId} failed, falling back to ${fallback.label}:`, (error as Error).message)
+    return { providerId: fallback.id, result: await fallback.search!(query) }
+  }
+}
+
+// Searches with the given provider; when Perplexity fails, retries once with the fallback search provider.
+// Results are cached per provider and normalized query, without the raw provider payload.
+// Usage and cost describe this call, so they are empty when the result came from the cache.
+export async function searchWithFallback(providerId: string, query: string) {
+  const keyParts = { provider: providerId, query: normalizeQuestion(query) }
+  const { value, cached } = await withCache("search", keyParts, async () => {
+    const { providerId: answeredBy, result } = await searchUncached(providerId, query)
+    const { answer, results, model, usage } = result
+    return { providerId: answeredBy, result: { answer, results, model, usage } as SearchResult }
+  })
+  // priced by the model behind the search (Perplexity) or the search API's per-request fee (Tavily)
+  const usage = cached ? undefined : value.result.usage
+  const costUsd = cached ? 0 : estimateCost(value.result.model ?? value.providerId, usage, 1)
+  return { ...value, cached, usage, costUsd }
+}
@@ -0,0 +1,73 @@
+import { tavily, type TavilyClient } from "@tavily/core"
+import { missingKeyError, ProviderError } from "./errors"
+import type { ExtractedPage, Provider, SearchResult } from "./types"
+
+const MAX_RESULTS = 5
+
+let client: TavilyClient | null = null
+
+function getApiKey() {
+  return process.env.TAVILY_API_KEY?.trim() || undefined
+}
+
+function getClient() {
+  if (!client) client = tavily({ apiKey: getApiKey() })
+  return client
+}
+
+function searchError(message: string, error: unknown) {
+  return new ProviderError("tavily", message, {
+    status: 502,
+    errorType: "search_error",
+    details: { type: "tavily_api_error", message: error instanceof Error ? error.message : String(error) },
+  })
+}
+
+async function search(query: string): Promise<SearchResult> {
+  if (!getApiKey()) {
+    throw missingKeyError("tavily", "Tavily")
+  }
+  try {
+    console.log("[Tavily] Searching for:", query.substring(0, 100) + "...")
+    const data = await getClient().search(query, {
+      searchDepth: process.env.TAVILY_SEARCH_DEPTH === "advanced" ? "advanced" : "basic",
+      includeAnswer: true,
+      maxResults: MAX_RESULTS,
+    })
+    const results = (data.results ?? []).map((result) => ({
+      title: result.title || result.url,
+      url: result.url,
+      content: result.content || "",
+    }))
+    console.log("[Tavily] Search completed:", { hasSummary: !!data.answer, resultsCount: results.length })
+    return { answer: data.answer?.trim() ?? "", results, raw: data }
+  } catch (error) {
+    console.error("[Tavily] Search error:", error)
+    throw searchError("Tavily search failed.", error)
+  }
+}
+
+async function extract(urls: string[]): Promise<ExtractedPage[]> {
+  if (urls.length === 0) return []
+  try {
+    const data = await getClient().extract(urls, { format: "text" })
+    if (data.failedResults?.length) {
+      console.warn(
+        "[Tavily] Could not extract:",
+        data.failedResults.map((failed) => failed.url),
+      )
+    }
+    return (data.results ?? []).map((page) => ({ url: page.url, content: page.rawContent || "" }))
+  } catch (error) {
+    console.error("[Tavily] Extract error:", error)
+    throw searchError("Tavily extract failed.", error)
+  }
+}
+
+export const tavilyProvider: Provider = {
+  id: "tavily",
+  label: "Tavily",
+  isConfigured: () => !!getApiKey(),
+  search,
+  extract,
+}
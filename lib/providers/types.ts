@@ -0,0 +1,106 @@
+// Shared contracts for every AI backend the app can talk to.
+
+export type ContentPart =
+  | { type: "text"; text: string }
+  // base64 payload sent with the request (images, small documents)
+  | { type: "inline"; mimeType: string; data: string; name?: string }
+  // file already hosted somewhere (provider file API or public URL)
+  | { type: "file"; mimeType: string; uri: string; name?: string }
+  // a function the model asked to call, and what it returned (see lib/tools)
+  | { type: "tool_call"; name: string; args: Record<string, unknown> }
+  | { type: "tool_result"; name: string; result: unknown }
+
+export type ProviderMessage = {
+  role: "user" | "assistant"
+  content: string | ContentPart[]
+}
+
+// Asks the model for a JSON reply, optionally matching a JSON schema (Gemini only accepts its OpenAPI subset)
+export type ResponseFormat = {
+  type: "json"
+  schema?: Record<string, unknown>
+}
+
+// A function the model may call; `parameters` is a JSON schema object
+export type ToolDeclaration = {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export type ToolCall = {
+  name: string
+  args: Record<string, unknown>
+}
+
+export type ChatRequest = {
+  model: string
+  messages: ProviderMessage[]
+  system?: string
+  temperature?: number
+  topP?: number
+  maxTokens?: number
+  responseFormat?: ResponseFormat
+  // only providers with function calling (Gemini) pass these on; the others answer without them
+  tools?: ToolDeclaration[]
+}
+
+export type TokenUsage = {
+  promptTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+export type ChatResult = {
+  text: string
+  usage?: TokenUsage
+  // set instead of (or besides) text when the model wants tool results before answering
+  toolCalls?: ToolCall[]
+  raw?: any
+}
+
+export type SearchReference = {
+  title: string
+  url: string
+  content: string
+}
+
+export type SearchResult = {
+  answer: string
+  results: SearchReference[]
+  // set by search APIs that run a model (Perplexity); used for cost accounting
+  model?: string
+  usage?: TokenUsage
+  raw?: any
+}
+
+// Full text of a web page, as returned by providers that can read URLs
+export type ExtractedPage = {
+  url: string
+  content: string
+}
+
+// File as posted by the client: base64 data (or a URL) plus its mime type
+export type FileAttachment = {
+  name: string
+  type: string
+  data: string
+}
+
+export type UploadedFile = {
+  originalFile: FileAttachment
+  fileUri: string
+  name: string
+  mimeType: string
+}
+
+export interface Provider {
+  id: string
+  label: string
+  isConfigured(): boolean
+  chat?(request: ChatRequest): Promise<ChatResult>
+  streamChat?(request: ChatRequest, onDelta: (text: string) => void): Promise<ChatResult>
+  search?(query: string): Promise<SearchResult>
+  extract?(urls: string[]): Promise<ExtractedPage[]>
+  uploadFiles?(files: FileAttachment[]): Promise<UploadedFile[]>
+}
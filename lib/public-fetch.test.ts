@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+import { fetchPublic, isPublicAddress } from "./public-fetch"
+
+describe("isPublicAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "::ffff:a9fe:a9fe",
+    "not an address",
+  ])("rejects %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false)
+  })
+
+  it.each(["8.8.8.8", "93.184.216.34", "2606:4700:4700::1111", "::ffff:8.8.8.8"])("accepts %s", (address) => {
+    expect(isPublicAddress(address)).toBe(true)
+  })
+})
+
+describe("fetchPublic", () => {
+  it.each([
+    "http://127.0.0.1:3000/api/sessions",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://[::1]/",
+    "http://localhost/",
+    "file:///etc/passwd",
+  ])("refuses %s before connecting", async (url) => {
+    await expect(fetchPublic(url)).rejects.toThrow(/non-public|protocol/)
+  })
+})
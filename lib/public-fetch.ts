@@ -0,0 +1,83 @@
+import { lookup } from "node:dns/promises"
+import { BlockList, isIP } from "node:net"
+
+// Fetches URLs that came from outside (search results, model output) without letting them reach this server's
+// network: only http(s), only hosts whose every address is public, and every redirect is checked the same way.
+// fetch resolves the host again, so a DNS server that changes its answer between the two lookups isn't caught.
+
+const MAX_REDIRECTS = 5
+
+// Loopback, private, link-local (cloud metadata), shared, documentation, multicast and reserved ranges
+const BLOCKED = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["100::", 64],
+  ["2001::", 23],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, "ipv6")
+}
+
+// IPv4 written inside an IPv6 address (::ffff:10.0.0.1, or NAT64 64:ff9b::a00:1) is judged as IPv4
+function embeddedIPv4(address: string) {
+  const dotted = address.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/i)?.[1]
+  if (dotted) return dotted
+  const hex = address.match(/^(?:::ffff:|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i)
+  if (!hex) return undefined
+  const value = (parseInt(hex[1], 16) << 16) | parseInt(hex[2], 16)
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 255).join(".")
+}
+
+export function isPublicAddress(address: string) {
+  const version = isIP(address)
+  if (version === 4) return !BLOCKED.check(address, "ipv4")
+  if (version !== 6) return false
+  const ipv4 = embeddedIPv4(address)
+  return ipv4 ? !BLOCKED.check(ipv4, "ipv4") : !BLOCKED.check(address, "ipv6")
+}
+
+async function assertPublicUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error(`Unsupported protocol: ${url.protocol}`)
+  const host = url.hostname.replace(/^\[|\]$/g, "")
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address)
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(`Refusing to fetch a non-public address: ${url.hostname}`)
+  }
+}
+
+// Like fetch, for GET requests to public hosts; throws instead of fetching anything else
+export async function fetchPublic(input: string, init: Omit<RequestInit, "redirect"> = {}): Promise<Response> {
+  let url = new URL(input)
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(url)
+    const response = await fetch(url, { ...init, redirect: "manual" })
+    const location = response.headers.get("location")
+    if (response.status < 300 || response.status >= 400 || !location) return response
+    if (redirects === MAX_REDIRECTS) throw new Error(`Too many redirects: ${input}`)
+    void response.body?.cancel()
+    url = new URL(location, url)
+  }
+}
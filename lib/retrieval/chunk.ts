@@ -0,0 +1,69 @@
+import type { FileSection } from "@/lib/file-utils"
+import type { DocumentChunk } from "./types"
+
+// About 350 tokens per chunk: big enough to hold a paragraph or a few table rows with their context, small
+// enough that several chunks from different places fit in one prompt
+const CHUNK_CHARS = 1400
+// The last paragraph of a prose chunk is repeated at the start of the next one when it is at most this long
+const OVERLAP_CHARS = 300
+
+// Paragraphs for prose, lines for tables; pieces longer than a chunk are cut at sentence ends, then hard
+function pieces(section: FileSection) {
+  const units = section.header ? section.text.split("\n") : section.text.split(/\n\s*\n/)
+  return units
+    .map((unit) => unit.trim())
+    .filter(Boolean)
+    .flatMap((unit) => {
+      if (unit.length <= CHUNK_CHARS) return [unit]
+      const parts: string[] = []
+      let current = ""
+      for (const sentence of unit.match(/[^.!?。\n]+[.!?。]*\s*/g) ?? [unit]) {
+        if (current && current.length + sentence.length > CHUNK_CHARS) {
+          parts.push(current.trim())
+          current = ""
+        }
+        current += sentence
+        while (current.length > CHUNK_CHARS) {
+          parts.push(current.slice(0, CHUNK_CHARS))
+          current = current.slice(CHUNK_CHARS)
+        }
+      }
+      if (current.trim()) parts.push(current.trim())
+      return parts
+    })
+}
+
+export function chunkSections(documentId: string, documentName: string, sections: FileSection[]): DocumentChunk[] {
+  const chunks: DocumentChunk[] = []
+  const push = (section: FileSection, units: string[]) => {
+    const body = units.join(section.header ? "\n" : "\n\n")
+    chunks.push({
+      id: `${documentId}-${chunks.length + 1}`,
+      documentId,
+      documentName,
+      section: section.title,
+      page: section.page,
+      position: chunks.length + 1,
+      text: section.header ? `${section.header}\n${body}` : body,
+    })
+  }
+  for (const section of sections) {
+    const budget = CHUNK_CHARS - (section.header?.length ?? 0)
+    let units: string[] = []
+    let length = 0
+    for (const piece of pieces(section)) {
+      if (units.length > 0 && length + piece.length > budget) {
+        push(section, units)
+        const last = units[units.length - 1]
+        // table rows stand on their own and aren't repeated
+        const overlap = !section.header && last.length <= OVERLAP_CHARS && last.length + piece.length <= budget
+        units = overlap ? [last] : []
+        length = units.reduce((total, unit) => total + unit.length, 0)
+      }
+      units.push(piece)
+      length += piece.length
+    }
+    if (units.length > 0) push(section, units)
+  }
+  return chunks
+}
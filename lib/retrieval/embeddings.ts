@@ -0,0 +1,58 @@
+// Local embeddings: words, their unaccented forms and adjacent word pairs are hashed into a fixed-size vector
+// (the "hashing trick"). No model or API call, so indexing is free and works offline. It matches on shared
+// vocabulary rather than meaning, which is what questions about a user's own documents mostly need.
+
+export const EMBEDDING_DIMENSIONS = 512
+
+// FNV-1a; the top bit picks the sign so colliding features tend to cancel out rather than add up
+function hash(feature: string) {
+  let value = 0x811c9dc5
+  for (let index = 0; index < feature.length; index++) {
+    value ^= feature.charCodeAt(index)
+    value = Math.imul(value, 0x01000193)
+  }
+  return value >>> 0
+}
+
+// "quản lý" also counts as "quan ly", so questions typed without diacritics still match
+function unaccented(word: string) {
+  return word
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+}
+
+function features(text: string) {
+  const words =
+    text
+      .normalize("NFC")
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? []
+  const plain = words.map(unaccented)
+  const counts = new Map<string, number>()
+  const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) ?? 0) + weight)
+  plain.forEach((word, index) => {
+    add(word, 1)
+    if (words[index] !== word) add(words[index], 0.5)
+    if (index > 0) add(`${plain[index - 1]} ${word}`, 0.5)
+  })
+  return counts
+}
+
+export function embed(text: string) {
+  const vector = new Float32Array(EMBEDDING_DIMENSIONS)
+  for (const [feature, count] of features(text)) {
+    const value = hash(feature)
+    // repeated words count for less than their raw frequency
+    vector[value % EMBEDDING_DIMENSIONS] += (value & 0x80000000 ? -1 : 1) * (1 + Math.log(count))
+  }
+  const norm = Math.hypot(...vector)
+  return norm > 0 ? vector.map((value) => value / norm) : vector
+}
+
+// Vectors from `embed` are unit length, so the dot product is the cosine similarity
+export function similarity(a: Float32Array, b: Float32Array) {
+  let total = 0
+  for (let index = 0; index < a.length; index++) total += a[index] * b[index]
+  return total
+}
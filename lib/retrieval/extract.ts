@@ -0,0 +1,25 @@
+import { canExtractText, extractFileContent } from "@/lib/file-utils"
+import type { FileAttachment } from "@/lib/providers"
+import type { ExtractedDocument } from "./types"
+
+// Formats lib/file-utils reads on the server. Everything else (images, audio, scanned PDFs) still goes to the model
+// as a file.
+export function isExtractable(file: FileAttachment) {
+  // files already hosted somewhere are passed on by URL
+  return canExtractText(file) && !/^https?:\/\//.test(file.data)
+}
+
+export async function extractDocument(file: FileAttachment): Promise<ExtractedDocument | null> {
+  if (!isExtractable(file)) return null
+  const data = Buffer.from(file.data.replace(/^data:[^,]*,/, ""), "base64")
+  const content = await extractFileContent(new File([data], file.name, { type: file.type }))
+  if (content.type === "error") console.warn("[retrieval] Could not read", file.name, content.content)
+  // errors and files without a text layer have no sections
+  const sections = content.sections ?? []
+  return {
+    name: file.name,
+    mimeType: file.type,
+    sections: sections.filter((section) => section.text.trim()),
+    tables: content.tables ?? [],
+  }
+}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { indexFiles, listDocuments, retrieve, sessionCollection } from "./index"
+
+function textFile(name: string, text: string) {
+  return { name, type: "text/plain", data: Buffer.from(text).toString("base64") }
+}
+
+const budget = textFile(
+  "budget.txt",
+  "Ngân sách dự án năm 2025 là 4 tỷ đồng.\n\nChi phí nhân sự chiếm 60% ngân sách, còn lại là thiết bị.",
+)
+const hiring = textFile("hiring.txt", "Kế hoạch tuyển dụng: tuyển thêm ba kỹ sư phần mềm trong quý hai.")
+const menu = textFile("menu.txt", "Thực đơn căng tin: phở bò, bún chả và cơm tấm.")
+
+describe("retrieve", () => {
+  afterEach(() => vi.unstubAllEnvs())
+
+  it("ranks the chunks that share the question's words first", async () => {
+    const collection = sessionCollection("ranking")
+    await indexFiles(collection, [hiring, menu, budget])
+    const { chunks } = await retrieve("ngân sách dự án là bao nhiêu?", [collection], [])
+    expect(chunks[0].documentName).toBe("budget.txt")
+    expect(chunks.map((chunk) => chunk.documentName)).not.toContain("menu.txt")
+  })
+
+  it("indexes the question's attachments and always considers them", async () => {
+    const collection = sessionCollection("attachments")
+    const result = await retrieve("tóm tắt file này", [collection], [menu])
+    expect(result.indexed.map((document) => document.name)).toEqual(["menu.txt"])
+    expect(result.extracted).toEqual([menu])
+    expect(result.chunks.map((chunk) => chunk.documentName)).toEqual(["menu.txt"])
+    // a later question finds it without attaching it again, but only when it is related
+    expect((await retrieve("thực đơn căng tin có món gì?", [collection], [])).chunks[0].documentName).toBe("menu.txt")
+    expect((await retrieve("kế hoạch tuyển dụng", [collection], [])).chunks).toEqual([])
+  })
+
+  it("reads attachments without a collection for this call only", async () => {
+    const { chunks, indexed } = await retrieve("kỹ sư phần mềm", [], [hiring])
+    expect(indexed).toEqual([])
+    expect(chunks.map((chunk) => chunk.documentName)).toEqual(["hiring.txt"])
+  })
+
+  it("doesn't index files past the collection's chunk limit", async () => {
+    vi.stubEnv("RETRIEVAL_MAX_CHUNKS", "1")
+    const collection = sessionCollection("limit")
+    const first = await indexFiles(collection, [budget, hiring])
+    expect(first.indexed.map((document) => document.name)).toEqual(["budget.txt"])
+    expect(first.rejected).toEqual([hiring])
+    const { extracted } = await retrieve("kỹ sư", [collection], [hiring])
+    // the model gets the file instead
+    expect(extracted).toEqual([])
+    expect(listDocuments(collection).map((document) => document.name)).toEqual(["budget.txt"])
+  })
+})
@@ -0,0 +1,331 @@
+import { createHash } from "node:crypto"
+import { getDb } from "@/lib/db"
+import { envNumber } from "@/lib/env"
+import type { FileTable } from "@/lib/file-utils"
+import type { FileAttachment } from "@/lib/providers"
+import { chunkSections } from "./chunk"
+import { embed, similarity } from "./embeddings"
+import { extractDocument, isExtractable } from "./extract"
+import type { DocumentChunk, DocumentTable, IndexedDocument, RetrievedChunk } from "./types"
+
+// Documents attached to a chat are split into chunks, embedded locally and kept in a vector index per collection
+// (one per session, one per category for its knowledge base), so later questions can still use them. A question
+// only gets the chunks most similar to it instead of whole files. Every question scores all chunks of its
+// collections, so a collection takes at most RETRIEVAL_MAX_CHUNKS of them; files past that aren't indexed.
+
+const TOP_K = envNumber("RETRIEVAL_TOP_K", 6)
+// Chunks of documents from earlier messages below this similarity are left out. Documents attached to the question
+// itself always compete, so "summarize this file" still finds them.
+const MIN_SCORE = 0.08
+// about 2 KB of embedding per chunk, read for every question
+const DEFAULT_MAX_CHUNKS = 2000
+
+export function sessionCollection(sessionId: string) {
+  return `session:${sessionId}`
+}
+
+// Documents every session in the category retrieves from
+export function categoryCollection(categoryId: string) {
+  return `category:${categoryId}`
+}
+
+let ready = false
+
+function db() {
+  const database = getDb()
+  if (!ready) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS documents (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        chunks INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        data TEXT,
+        tables TEXT,
+        PRIMARY KEY (collection, id)
+      );
+      CREATE TABLE IF NOT EXISTS document_chunks (
+        collection TEXT NOT NULL,
+        document_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        section TEXT,
+        page INTEGER,
+        text TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        PRIMARY KEY (collection, document_id, position),
+        FOREIGN KEY (collection, document_id) REFERENCES documents(collection, id) ON DELETE CASCADE
+      );
+    `)
+    // databases created before documents kept their source for re-indexing, or their tables
+    const columns = database.prepare("PRAGMA table_info(documents)").all() as Array<{ name: string }>
+    for (const name of ["data", "tables"]) {
+      if (!columns.some((column) => column.name === name))
+        database.exec(`ALTER TABLE documents ADD COLUMN ${name} TEXT`)
+    }
+    // or chunks kept their page
+    const chunkColumns = database.prepare("PRAGMA table_info(document_chunks)").all() as Array<{ name: string }>
+    if (!chunkColumns.some((column) => column.name === "page")) {
+      database.exec("ALTER TABLE document_chunks ADD COLUMN page INTEGER")
+    }
+    ready = true
+  }
+  return database
+}
+
+type DocumentRow = {
+  collection: string
+  id: string
+  name: string
+  mime_type: string
+  chunks: number
+  created_at: number
+}
+
+type ChunkRow = {
+  document_id: string
+  name: string
+  position: number
+  section: string | null
+  page: number | null
+  text: string
+  embedding: Buffer
+}
+
+type EmbeddedChunk = { chunk: DocumentChunk; embedding: Float32Array }
+
+type ReadDocument = { chunks: EmbeddedChunk[]; tables: FileTable[] }
+
+function toDocument(row: DocumentRow): IndexedDocument {
+  return {
+    id: row.id,
+    collection: row.collection,
+    name: row.name,
+    mimeType: row.mime_type,
+    chunks: row.chunks,
+    createdAt: row.created_at,
+  }
+}
+
+// Identical files get the same id, so sending a file again doesn't index it twice
+function documentId(file: FileAttachment) {
+  return createHash("sha256").update(file.data).digest("hex").slice(0, 8)
+}
+
+async function embedFile(file: FileAttachment): Promise<ReadDocument> {
+  const document = await extractDocument(file)
+  if (!document) return { chunks: [], tables: [] }
+  const chunks = chunkSections(documentId(file), document.name, document.sections).map((chunk) => ({
+    chunk,
+    embedding: embed([document.name, chunk.section, chunk.text].filter(Boolean).join("\n")),
+  }))
+  return { chunks, tables: document.tables }
+}
+
+function tablesJson(tables: FileTable[]) {
+  return tables.length > 0 ? JSON.stringify(tables) : null
+}
+
+const DOCUMENT_COLUMNS = "collection, id, name, mime_type, chunks, created_at"
+
+export function listDocuments(collection: string): IndexedDocument[] {
+  const rows = db()
+    .prepare(`SELECT ${DOCUMENT_COLUMNS} FROM documents WHERE collection = ? ORDER BY created_at`)
+    .all(collection) as DocumentRow[]
+  return rows.map(toDocument)
+}
+
+export type IndexResult = {
+  indexed: IndexedDocument[]
+  // readable files that would take the collection past its chunk limit
+  rejected: FileAttachment[]
+}
+
+// Extracts, chunks and stores the files that aren't in the collection yet. Formats that can't be read on the
+// server are skipped, and so are files the collection has no room for; the model still gets those as files.
+export async function indexFiles(collection: string, files: FileAttachment[]): Promise<IndexResult> {
+  const database = db()
+  const exists = database.prepare("SELECT 1 FROM documents WHERE collection = ? AND id = ?")
+  const limit = envNumber("RETRIEVAL_MAX_CHUNKS", DEFAULT_MAX_CHUNKS)
+  let stored = (
+    database.prepare("SELECT COUNT(*) AS count FROM document_chunks WHERE collection = ?").get(collection) as {
+      count: number
+    }
+  ).count
+  const indexed: IndexedDocument[] = []
+  const rejected: FileAttachment[] = []
+  for (const file of files.filter(isExtractable)) {
+    const id = documentId(file)
+    if (exists.get(collection, id)) continue
+    const { chunks, tables } = await embedFile(file)
+    if (stored + chunks.length > limit) {
+      console.warn(`[retrieval] ${collection} is full (${stored} of ${limit} chunks), not indexing ${file.name}`)
+      rejected.push(file)
+      continue
+    }
+    stored += chunks.length
+    const document: IndexedDocument = {
+      id,
+      collection,
+      name: file.name,
+      mimeType: file.type,
+      chunks: chunks.length,
+      createdAt: Date.now(),
+    }
+    database.transaction(() => {
+      database
+        .prepare(
+          `INSERT INTO documents (collection, id, name, mime_type, chunks, created_at, data, tables)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          collection,
+          id,
+          document.name,
+          document.mimeType,
+          document.chunks,
+          document.createdAt,
+          file.data,
+          tablesJson(tables),
+        )
+      saveChunks(collection, id, chunks)
+    })()
+    indexed.push(document)
+  }
+  return { indexed, rejected }
+}
+
+function saveChunks(collection: string, documentId: string, chunks: EmbeddedChunk[]) {
+  const insert = db().prepare(
+    `INSERT INTO document_chunks (collection, document_id, position, section, page, text, embedding)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+  )
+  for (const { chunk, embedding } of chunks) {
+    const { position, section, page, text } = chunk
+    insert.run(collection, documentId, position, section ?? null, page ?? null, text, Buffer.from(embedding.buffer))
+  }
+}
+
+// Extracts and chunks a stored document again, e.g. after extraction learned a format. Returns null when the
+// document doesn't exist or was indexed before sources were kept.
+export async function reindexDocument(collection: string, id: string): Promise<IndexedDocument | null> {
+  const database = db()
+  const row = database
+    .prepare(`SELECT ${DOCUMENT_COLUMNS}, data FROM documents WHERE collection = ? AND id = ?`)
+    .get(collection, id) as (DocumentRow & { data: string | null }) | undefined
+  if (!row?.data) return null
+  const { chunks, tables } = await embedFile({ name: row.name, type: row.mime_type, data: row.data })
+  database.transaction(() => {
+    database.prepare("DELETE FROM document_chunks WHERE collection = ? AND document_id = ?").run(collection, id)
+    saveChunks(collection, id, chunks)
+    database
+      .prepare("UPDATE documents SET chunks = ?, tables = ? WHERE collection = ? AND id = ?")
+      .run(chunks.length, tablesJson(tables), collection, id)
+  })()
+  return toDocument({ ...row, chunks: chunks.length })
+}
+
+// Returns false when the document doesn't exist
+export function deleteDocument(collection: string, id: string) {
+  return db().prepare("DELETE FROM documents WHERE collection = ? AND id = ?").run(collection, id).changes > 0
+}
+
+function storedChunks(collections: string[]): EmbeddedChunk[] {
+  if (collections.length === 0) return []
+  const rows = db()
+    .prepare(
+      `SELECT c.document_id, d.name, c.position, c.section, c.page, c.text, c.embedding
+       FROM document_chunks c JOIN documents d ON d.collection = c.collection AND d.id = c.document_id
+       WHERE c.collection IN (${collections.map(() => "?").join(", ")})`,
+    )
+    .all(...collections) as ChunkRow[]
+  return rows.map((row) => ({
+    chunk: {
+      id: `${row.document_id}-${row.position}`,
+      documentId: row.document_id,
+      documentName: row.name,
+      section: row.section ?? undefined,
+      page: row.page ?? undefined,
+      position: row.position,
+      text: row.text,
+    },
+    // copied, since the Buffer's offset into its pool needn't be a multiple of four
+    embedding: new Float32Array(new Uint8Array(row.embedding).buffer),
+  }))
+}
+
+// The tables of the given documents, looked up in the first collection that has each of them
+function storedTables(collections: string[], ids: string[]): DocumentTable[] {
+  const select = db().prepare("SELECT name, tables FROM documents WHERE collection = ? AND id = ?")
+  return ids.flatMap((id) => {
+    for (const collection of collections) {
+      const row = select.get(collection, id) as { name: string; tables: string | null } | undefined
+      if (row) return withDocument(id, row.name, row.tables ? JSON.parse(row.tables) : [])
+    }
+    return []
+  })
+}
+
+function withDocument(documentId: string, documentName: string, tables: FileTable[]): DocumentTable[] {
+  return tables.map((table) => ({ ...table, documentId, documentName }))
+}
+
+export function hasDocuments(collections: string[]) {
+  return collections.some((collection) => listDocuments(collection).length > 0)
+}
+
+export function deleteCollection(collection: string) {
+  db().prepare("DELETE FROM documents WHERE collection = ?").run(collection)
+}
+
+export type RetrievalResult = {
+  chunks: RetrievedChunk[]
+  // documents added to the index by this call
+  indexed: IndexedDocument[]
+  // attachments whose text was read on the server, which the model no longer needs as files
+  extracted: FileAttachment[]
+  // every row of the spreadsheets among the question's attachments and the documents the chunks come from
+  tables: DocumentTable[]
+}
+
+// The chunks most similar to the question. `files` (the question's own attachments) are added to the first
+// collection first; without a collection they are only chunked for this call.
+export async function retrieve(
+  query: string,
+  collections: string[],
+  files: FileAttachment[],
+): Promise<RetrievalResult> {
+  const readable = files.filter(isExtractable)
+  const current = new Set(readable.map(documentId))
+  let indexed: IndexedDocument[] = []
+  let candidates: EmbeddedChunk[]
+  let tables: (ids: string[]) => DocumentTable[]
+  if (collections.length > 0) {
+    indexed = (await indexFiles(collections[0], readable)).indexed
+    candidates = storedChunks(collections)
+    tables = (ids) => storedTables(collections, ids)
+  } else {
+    const read = await Promise.all(readable.map(embedFile))
+    candidates = read.flatMap((document) => document.chunks)
+    const found = readable.flatMap((file, index) => withDocument(documentId(file), file.name, read[index].tables))
+    tables = (ids) => found.filter((table) => ids.includes(table.documentId))
+  }
+  // files without any text (a scanned PDF, a broken document) still go to the model
+  const withText = new Set(candidates.map(({ chunk }) => chunk.documentId))
+  const extracted = readable.filter((file) => withText.has(documentId(file)))
+  const question = embed(query)
+  const seen = new Set<string>()
+  const chunks = candidates
+    // the same file can sit in more than one collection
+    .filter(({ chunk }) => !seen.has(chunk.id) && !!seen.add(chunk.id))
+    .map(({ chunk, embedding }) => ({ ...chunk, score: similarity(question, embedding) }))
+    .filter((chunk) => current.has(chunk.documentId) || chunk.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, TOP_K)
+  const used = new Set([...current, ...chunks.map((chunk) => chunk.documentId)])
+  return { chunks, indexed, extracted, tables: tables([...used]) }
+}
+
+export { isExtractable } from "./extract"
+export type * from "./types"
@@ -0,0 +1,35 @@
+import type { FileSection, FileTable } from "@/lib/file-utils"
+
+// Text pulled out of an attachment, split where the document has headings, sheets or similar divisions
+export type ExtractedDocument = {
+  name: string
+  mimeType: string
+  sections: FileSection[]
+  tables: FileTable[]
+}
+
+// `id` is "<document>-<position>", e.g. "3f9a1c2b-4"; answers cite it next to the document and section
+export type DocumentChunk = {
+  id: string
+  documentId: string
+  documentName: string
+  section?: string
+  // PDF page, for documents split by page instead of headings
+  page?: number
+  position: number
+  text: string
+}
+
+export type RetrievedChunk = DocumentChunk & { score: number }
+
+// A spreadsheet or CSV table of an indexed document, with all its rows
+export type DocumentTable = FileTable & { documentId: string; documentName: string }
+
+export type IndexedDocument = {
+  id: string
+  collection: string
+  name: string
+  mimeType: string
+  chunks: number
+  createdAt: number
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { runInSandbox, type SandboxTable } from "."
+
+const limits = { timeoutMs: 2000, memoryMb: 64 }
+const tables: SandboxTable[] = [
+  {
+    name: "Sales",
+    columns: ["month", "revenue"],
+    rows: [
+      { month: "2024-01", revenue: 100 },
+      { month: "2024-01", revenue: 50 },
+      { month: "2024-02", revenue: 120 },
+    ],
+  },
+]
+
+describe("runInSandbox", () => {
+  it("returns what the code returns, with its logs", async () => {
+    const run = await runInSandbox(
+      `const totals = {}
+      for (const row of tables[0].rows) totals[row.month] = (totals[row.month] ?? 0) + row.revenue
+      console.log("rows", tables[0].rows.length)
+      return totals`,
+      tables,
+      limits,
+    )
+    expect(run.error).toBeUndefined()
+    expect(run.result).toEqual({ "2024-01": 150, "2024-02": 120 })
+    expect(run.logs).toEqual(["rows 3"])
+  })
+
+  it.each([
+    ["the global's constructor", `return globalThis.constructor.constructor("return process")()`],
+    ["this", `return this.constructor.constructor("return process")()`],
+    ["a function's constructor", `return (() => {}).constructor("return process")()`],
+    ["the console", `return console.log.constructor("return process")()`],
+    ["the tables", `return tables.constructor.constructor("return process")()`],
+    ["eval", `return eval("process")`],
+  ])("does not reach the host process through %s", async (_name, code) => {
+    const run = await runInSandbox(code, tables, limits)
+    expect(run.result).toBeUndefined()
+    expect(run.error).toBeDefined()
+  })
+
+  it("has no require, process or file system", async () => {
+    const run = await runInSandbox(
+      `return [typeof require, typeof process, typeof globalThis.process, typeof setTimeout]`,
+      tables,
+      limits,
+    )
+    expect(run.result).toEqual(["undefined", "undefined", "undefined", "undefined"])
+  })
+
+  it("stops code that runs too long", async () => {
+    const run = await runInSandbox("while (true) {}", tables, { timeoutMs: 200, memoryMb: 64 })
+    expect(run.error).toMatch(/timed out/i)
+  })
+
+  it("stops code that runs out of memory", async () => {
+    const run = await runInSandbox("const all = []; while (true) all.push(new Array(1e6).fill(1))", tables, {
+      timeoutMs: 10000,
+      memoryMb: 32,
+    })
+    expect(run.error).toMatch(/memory/i)
+  })
+
+  it("rejects a Promise result", async () => {
+    const run = await runInSandbox("return Promise.resolve(1)", tables, limits)
+    expect(run.error).toMatch(/Promise/)
+  })
+})
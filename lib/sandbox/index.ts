@@ -0,0 +1,121 @@
+import { spawn } from "node:child_process"
+import { envNumber } from "@/lib/env"
+import type { SandboxLimits, SandboxRun, SandboxTable } from "./types"
+
+// Runs JavaScript the model wrote against table rows. The code runs in a vm context created from a null-prototype
+// object, so nothing in it leads back to the host realm's Function, and string compilation is off inside it. The
+// context lives in a separate Node process started under the permission model without any grants (no file system,
+// child processes, workers or addons), with an empty environment and its own heap limit, which is killed once the
+// code returns or runs out of time.
+
+export function sandboxLimits(): SandboxLimits {
+  return {
+    timeoutMs: envNumber("SANDBOX_TIMEOUT_MS", 3000),
+    memoryMb: envNumber("SANDBOX_MEMORY_MB", 128),
+  }
+}
+
+// Node 22 turned --experimental-permission into --permission; older versions have neither
+function permissionFlag() {
+  const flags = process.allowedNodeEnvironmentFlags
+  if (flags.has("--permission")) return "--permission"
+  if (flags.has("--experimental-permission")) return "--experimental-permission"
+  return undefined
+}
+
+// Reads { script, timeoutMs } from stdin and writes the script's completion value (a JSON string) to stdout
+const CHILD_SOURCE = `
+const vm = require("node:vm")
+let request = ""
+process.stdin.setEncoding("utf8")
+process.stdin.on("data", (chunk) => (request += chunk))
+process.stdin.on("end", () => {
+  const { script, timeoutMs } = JSON.parse(request)
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: "afterEvaluate",
+  })
+  let output
+  try {
+    output = vm.runInContext(script, context, { timeout: timeoutMs })
+  } catch (error) {
+    output = JSON.stringify({ error: String((error && error.message) || error), logs: [] })
+  }
+  process.stdout.write(typeof output === "string" ? output : "{}")
+})
+`
+
+// The tables go into the script as a string literal and are parsed inside the context, so the code never holds an
+// object of the host realm; the result is serialized there too
+function contextScript(code: string, tables: SandboxTable[]) {
+  return `"use strict";
+const logs = [];
+const console = {
+  log: (...values) => logs.push(values.map((value) => (typeof value === "string" ? value : JSON.stringify(value))).join(" ")),
+};
+let outcome;
+try {
+  const result = (function (tables, console) {
+${code}
+  })(JSON.parse(${JSON.stringify(JSON.stringify(tables))}), console);
+  outcome = result instanceof Promise ? { error: "Return the result directly, not a Promise" } : { result: result ?? null };
+} catch (error) {
+  outcome = { error: String((error && error.message) || error) };
+}
+JSON.stringify({ ...outcome, logs });`
+}
+
+export function runInSandbox(
+  code: string,
+  tables: SandboxTable[],
+  limits: SandboxLimits = sandboxLimits(),
+): Promise<SandboxRun> {
+  const startedAt = Date.now()
+  const flag = permissionFlag()
+  if (!flag) return Promise.resolve({ error: "The sandbox needs Node 20 or later", logs: [], durationMs: 0 })
+  return new Promise((resolve) => {
+    const child = spawn(process.execPath, [flag, `--max-old-space-size=${limits.memoryMb}`, "-e", CHILD_SOURCE], {
+      // nothing from the server's environment (API keys) reaches the process
+      env: { NODE_ENV: "production" },
+      stdio: ["pipe", "pipe", "pipe"],
+    })
+    let stdout = ""
+    let stderr = ""
+    child.stdout.setEncoding("utf8").on("data", (chunk: string) => (stdout += chunk))
+    child.stderr.setEncoding("utf8").on("data", (chunk: string) => (stderr += chunk))
+    let settled = false
+    const finish = (run: Omit<SandboxRun, "durationMs">) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      child.kill("SIGKILL")
+      resolve({ ...run, durationMs: Date.now() - startedAt })
+    }
+    // the vm timeout stops synchronous code; this also covers parsing huge input and a process that hangs
+    const timer = setTimeout(
+      () => finish({ error: `Timed out after ${limits.timeoutMs} ms`, logs: [] }),
+      limits.timeoutMs + 2000,
+    )
+    child.once("error", (error) => finish({ error: error.message, logs: [] }))
+    child.once("close", (exitCode) => {
+      if (exitCode !== 0 || !stdout) {
+        const outOfMemory = /heap out of memory|allocation failed/i.test(stderr)
+        return finish({
+          error: outOfMemory ? `Ran out of memory (${limits.memoryMb} MB)` : `Sandbox stopped (exit code ${exitCode})`,
+          logs: [],
+        })
+      }
+      try {
+        const output = JSON.parse(stdout) as { result?: unknown; error?: string; logs: string[] }
+        finish(output.error !== undefined ? { error: output.error, logs: output.logs } : output)
+      } catch {
+        finish({ error: "The sandbox returned invalid output", logs: [] })
+      }
+    })
+    // the stream errors when the process dies before reading its input; `close` reports that
+    child.stdin.on("error", () => {})
+    child.stdin.end(JSON.stringify({ script: contextScript(code, tables), timeoutMs: limits.timeoutMs }))
+  })
+}
+
+export type * from "./types"
@@ -0,0 +1,20 @@
+// A table as sandboxed code sees it: rows are objects keyed by column name
+export type SandboxTable = {
+  name: string
+  columns: string[]
+  rows: Record<string, string | number | boolean | null>[]
+}
+
+export type SandboxLimits = {
+  timeoutMs: number
+  memoryMb: number
+}
+
+export type SandboxRun = {
+  // the code's return value after a JSON round trip; absent when it failed
+  result?: unknown
+  error?: string
+  // what the code passed to console.log
+  logs: string[]
+  durationMs: number
+}
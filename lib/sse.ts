@@ -0,0 +1,61 @@
+// Minimal reader for `text/event-stream` bodies. Yields the parsed JSON of every `data:` line.
+export async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  const parseEvent = (block: string) => {
+    const data = block
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n")
+    if (!data || data === "[DONE]") return undefined
+    try {
+      return JSON.parse(data)
+    } catch {
+      return undefined
+    }
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n")
+      let boundary = buffer.indexOf("\n\n")
+      while (boundary !== -1) {
+        const event = parseEvent(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (event !== undefined) yield event
+        boundary = buffer.indexOf("\n\n")
+      }
+    }
+    const last = parseEvent(buffer + decoder.decode())
+    if (last !== undefined) yield last
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// Server side: runs `producer` and streams every event it sends as a `data:` line
+export function eventStreamResponse(producer: (send: (event: unknown) => void) => Promise<void>) {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+      try {
+        await producer(send)
+      } finally {
+        controller.close()
+      }
+    },
+  })
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  })
+}
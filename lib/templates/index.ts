@@ -0,0 +1,144 @@
+import { getDb } from "@/lib/db"
+import { LOCALES, type Locale } from "@/lib/i18n"
+import { getPrompts, isPromptName, type PromptCatalog, type PromptName } from "@/lib/workflows/prompts"
+import type { TemplateDetail, TemplateSummary, TemplateVersion } from "./types"
+
+// Edited prompt texts. The catalogs in lib/workflows/prompts stay the defaults (version 0); the newest saved
+// version of a name and locale overrides them without a redeploy.
+
+let ready = false
+
+function db() {
+  const database = getDb()
+  if (!ready) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        name TEXT NOT NULL,
+        locale TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        note TEXT,
+        restored_from INTEGER,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (name, locale, version)
+      );
+    `)
+    ready = true
+  }
+  return database
+}
+
+type VersionRow = {
+  name: string
+  locale: Locale
+  version: number
+  text: string
+  note: string | null
+  restoredFrom: number | null
+  createdAt: number
+}
+
+const VERSION_COLUMNS = "name, locale, version, text, note, restored_from AS restoredFrom, created_at AS createdAt"
+
+function toVersion(row: VersionRow): TemplateVersion {
+  return {
+    name: row.name,
+    locale: row.locale,
+    version: row.version,
+    text: row.text,
+    ...(row.note ? { note: row.note } : {}),
+    ...(row.restoredFrom !== null ? { restoredFrom: row.restoredFrom } : {}),
+    createdAt: row.createdAt,
+  }
+}
+
+function builtInVersion(name: PromptName, locale: Locale): TemplateVersion {
+  return { name, locale, version: 0, text: getPrompts(locale)[name], createdAt: 0 }
+}
+
+// Newest saved version of every name in a locale
+function latestRows(locale: Locale) {
+  return db()
+    .prepare(
+      `SELECT ${VERSION_COLUMNS} FROM prompt_templates t WHERE locale = ?
+        AND version = (SELECT MAX(version) FROM prompt_templates WHERE name = t.name AND locale = t.locale)`,
+    )
+    .all(locale) as VersionRow[]
+}
+
+// `{name}` placeholders a text expects, in order of first use
+export function templateVariables(text: string) {
+  return Array.from(new Set(Array.from(text.matchAll(/\{(\w+)\}/g), (match) => match[1])))
+}
+
+function toSummary(current: TemplateVersion): TemplateSummary {
+  return {
+    name: current.name,
+    locale: current.locale,
+    version: current.version,
+    builtIn: current.version === 0,
+    updatedAt: current.createdAt,
+    variables: templateVariables(current.text),
+  }
+}
+
+// The prompts requests in `locale` run with, and the version each one comes from
+export function loadPrompts(locale: Locale): { prompts: PromptCatalog; versions: Record<PromptName, number> } {
+  const prompts = { ...getPrompts(locale) }
+  const versions = Object.fromEntries(Object.keys(prompts).map((name) => [name, 0])) as Record<PromptName, number>
+  for (const row of latestRows(locale)) {
+    // names dropped from the catalog are kept in the table but no longer used
+    if (!isPromptName(row.name)) continue
+    prompts[row.name] = row.text
+    versions[row.name] = row.version
+  }
+  return { prompts, versions }
+}
+
+export function listTemplates(): TemplateSummary[] {
+  return LOCALES.flatMap((locale) => {
+    const saved = new Map(latestRows(locale).map((row) => [row.name, toVersion(row)]))
+    return (Object.keys(getPrompts(locale)) as PromptName[]).map((name) =>
+      toSummary(saved.get(name) ?? builtInVersion(name, locale)),
+    )
+  })
+}
+
+export function getTemplate(name: string, locale: Locale): TemplateDetail | null {
+  if (!isPromptName(name)) return null
+  const rows = db()
+    .prepare(`SELECT ${VERSION_COLUMNS} FROM prompt_templates WHERE name = ? AND locale = ? ORDER BY version DESC`)
+    .all(name, locale) as VersionRow[]
+  const versions = [...rows.map(toVersion), builtInVersion(name, locale)]
+  return { ...toSummary(versions[0]), text: versions[0].text, versions }
+}
+
+function addVersion(name: string, locale: Locale, text: string, note?: string, restoredFrom?: number) {
+  const database = db()
+  return database.transaction(() => {
+    const { latest } = database
+      .prepare("SELECT COALESCE(MAX(version), 0) AS latest FROM prompt_templates WHERE name = ? AND locale = ?")
+      .get(name, locale) as { latest: number }
+    database
+      .prepare(
+        "INSERT INTO prompt_templates (name, locale, version, text, note, restored_from, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      )
+      .run(name, locale, latest + 1, text, note || null, restoredFrom ?? null, Date.now())
+    return getTemplate(name, locale)!
+  })()
+}
+
+// Returns null for a name that is not in the prompt catalog
+export function saveTemplate(name: string, locale: Locale, text: string, note?: string) {
+  if (!isPromptName(name)) return null
+  return addVersion(name, locale, text, note)
+}
+
+// Makes an earlier version current again by copying it as a new version; returns null if it doesn't exist
+export function rollbackTemplate(name: string, locale: Locale, version: number, note?: string) {
+  const target = getTemplate(name, locale)?.versions.find((entry) => entry.version === version)
+  if (!target) return null
+  return addVersion(name, locale, target.text, note, version)
+}
+
+export type * from "./types"
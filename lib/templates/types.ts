@@ -0,0 +1,38 @@
+import type { Locale } from "@/lib/i18n"
+
+// One saved text of a named prompt. Version 0 is the built-in text from lib/workflows/prompts; edits and
+// rollbacks always add a new version, so earlier answers keep pointing at the exact text they used.
+export type TemplateVersion = {
+  name: string
+  locale: Locale
+  version: number
+  text: string
+  note?: string
+  // set when the version was created by rolling back to an earlier one
+  restoredFrom?: number
+  createdAt: number
+}
+
+export type TemplateSummary = {
+  name: string
+  locale: Locale
+  // the version requests use now
+  version: number
+  // true while no edit has been saved and the built-in text is in use
+  builtIn: boolean
+  updatedAt: number
+  variables: string[]
+}
+
+export type TemplateDetail = TemplateSummary & {
+  text: string
+  // newest first, ending with the built-in version 0
+  versions: TemplateVersion[]
+}
+
+// Recorded with each answer: which version of which prompt produced it
+export type TemplateRef = {
+  name: string
+  locale: Locale
+  version: number
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest"
+import { evaluate } from "./calculator"
+
+describe("evaluate", () => {
+  it("applies a leading minus after the power", () => {
+    expect(evaluate("-2^2")).toBe(-4)
+    expect(evaluate("(-2)^2")).toBe(4)
+    expect(evaluate("3 - -2^2")).toBe(7)
+  })
+
+  it("takes signed and chained exponents", () => {
+    expect(evaluate("2^-1")).toBe(0.5)
+    expect(evaluate("2^3^2")).toBe(512)
+  })
+
+  it("keeps the usual precedence", () => {
+    expect(evaluate("1 + 2 * 3")).toBe(7)
+    expect(evaluate("(1200 * 0.08) / 12")).toBe(8)
+    expect(evaluate("-3 * 2")).toBe(-6)
+    expect(evaluate("max(1, -2^2, 3) % 2")).toBe(1)
+  })
+
+  it("rejects what it can't read", () => {
+    expect(() => evaluate("2 +")).toThrow()
+    expect(() => evaluate("alert(1)")).toThrow(/Unknown name/)
+    expect(() => evaluate("1 / 0")).toThrow(/finite/)
+  })
+})
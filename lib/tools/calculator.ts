@@ -0,0 +1,111 @@
+import type { Tool } from "./types"
+
+// Arithmetic without eval: + - * / % ^, parentheses, the functions below and the constants pi and e
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+}
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E }
+
+function tokenize(expression: string) {
+  const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z_]+|\S/gi) ?? []
+  const invalid = tokens.find((token) => token.length === 1 && !/[\w+\-*/%^(),]/.test(token))
+  if (invalid) throw new Error(`Unexpected character "${invalid}"`)
+  return tokens
+}
+
+export function evaluate(expression: string): number {
+  const tokens = tokenize(expression)
+  let position = 0
+  const peek = () => tokens[position]
+  const take = (expected?: string) => {
+    const token = tokens[position++]
+    if (expected && token !== expected) throw new Error(`Expected "${expected}"`)
+    return token
+  }
+
+  // expression := term (("+" | "-") term)*
+  function expressionValue(): number {
+    let value = term()
+    while (peek() === "+" || peek() === "-") value = take() === "+" ? value + term() : value - term()
+    return value
+  }
+  // term := unary (("*" | "/" | "%") unary)*
+  function term(): number {
+    let value = unary()
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const operator = take()
+      const right = unary()
+      value = operator === "*" ? value * right : operator === "/" ? value / right : value % right
+    }
+    return value
+  }
+  // unary := ("-" | "+") unary | power, so the sign applies after the power: -2^2 is -4
+  function unary(): number {
+    if (peek() !== "-" && peek() !== "+") return power()
+    return take() === "-" ? -unary() : unary()
+  }
+  // power := primary ("^" unary)?, right-associative; the exponent may have a sign, as in 2^-1
+  function power(): number {
+    const base = primary()
+    if (peek() !== "^") return base
+    take()
+    return Math.pow(base, unary())
+  }
+  function primary(): number {
+    const token = take()
+    if (token === undefined) throw new Error("Unexpected end of expression")
+    if (token === "(") {
+      const value = expressionValue()
+      take(")")
+      return value
+    }
+    if (/^[\d.]/.test(token)) return Number(token)
+    const name = token.toLowerCase()
+    if (Object.prototype.hasOwnProperty.call(CONSTANTS, name)) return CONSTANTS[name]
+    if (Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) {
+      take("(")
+      const args = [expressionValue()]
+      while (peek() === ",") {
+        take()
+        args.push(expressionValue())
+      }
+      take(")")
+      return FUNCTIONS[name](...args)
+    }
+    throw new Error(`Unknown name "${token}"`)
+  }
+
+  const value = expressionValue()
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}"`)
+  if (!Number.isFinite(value)) throw new Error("The result is not a finite number")
+  return value
+}
+
+export const calculatorTool: Tool<{
+  expression: { type: "string"; description: string }
+}> = {
+  name: "calculator",
+  description:
+    "Evaluates an arithmetic expression exactly. Use it for any calculation instead of computing in your head. " +
+    "Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, ln, log (base 10), exp, sin, cos, tan, " +
+    "min, max, pow and the constants pi and e.",
+  parameters: {
+    expression: { type: "string", description: "The expression, e.g. (1200 * 0.08) / 12" },
+  },
+  run: ({ expression }) => ({ expression, result: evaluate(expression) }),
+}
@@ -0,0 +1,59 @@
+import type { Tool } from "./types"
+
+export const DEFAULT_TIME_ZONE = "Asia/Ho_Chi_Minh"
+
+// Date parts of `date` as seen in `timeZone`
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    weekday: "long",
+    hourCycle: "h23",
+  }).formatToParts(date)
+  return Object.fromEntries(parts.map((part) => [part.type, part.value]))
+}
+
+// "+07:00" for Asia/Ho_Chi_Minh
+function utcOffset(date: Date, timeZone: string) {
+  const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+    .formatToParts(date)
+    .find((part) => part.type === "timeZoneName")?.value
+  // UTC itself is just "GMT"
+  return name?.replace("GMT", "") || "+00:00"
+}
+
+export const datetimeTool: Tool<{
+  timeZone: { type: "string"; description: string; optional: true }
+}> = {
+  name: "current_datetime",
+  description:
+    "Returns the current date, time and weekday. Use it for questions about today, now, deadlines or how long " +
+    `until a date. Times are in ${DEFAULT_TIME_ZONE} (Vietnam) unless another IANA time zone is given.`,
+  parameters: {
+    timeZone: { type: "string", description: `IANA time zone, default ${DEFAULT_TIME_ZONE}`, optional: true },
+  },
+  run: ({ timeZone = DEFAULT_TIME_ZONE }) => {
+    const now = new Date()
+    let zone = timeZone
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: zone })
+    } catch {
+      zone = DEFAULT_TIME_ZONE
+    }
+    const parts = zonedParts(now, zone)
+    const offset = utcOffset(now, zone)
+    return {
+      timeZone: zone,
+      iso: `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}${offset}`,
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      time: `${parts.hour}:${parts.minute}`,
+      weekday: parts.weekday,
+      utcOffset: offset,
+    }
+  },
+}
@@ -0,0 +1,51 @@
+import type { FileAttachment } from "@/lib/providers"
+import type { Tool } from "./types"
+
+const MAX_MATCHES = 8
+const CONTEXT_LINES = 2
+
+// Files whose bytes are text; documents like PDF or DOCX are read by the model itself
+const TEXT_TYPES = ["text/", "application/json", "application/xml", "application/csv", "application/x-yaml"]
+
+function isTextFile(file: FileAttachment) {
+  return TEXT_TYPES.some((type) => file.type.startsWith(type)) && !file.data.startsWith("http")
+}
+
+function fileText(file: FileAttachment) {
+  return Buffer.from(file.data, "base64").toString("utf8")
+}
+
+export const fileLookupTool: Tool<{
+  query: { type: "string"; description: string }
+  fileName: { type: "string"; description: string; optional: true }
+}> = {
+  name: "file_lookup",
+  description:
+    "Finds the lines of the text files attached to this message that mention the given words, with a little " +
+    "surrounding text. Use it to quote or check details in large attachments.",
+  parameters: {
+    query: { type: "string", description: "Words to look for; lines containing more of them rank higher" },
+    fileName: { type: "string", description: "Only search the file with this name", optional: true },
+  },
+  run: ({ query, fileName }, context) => {
+    const files = context.files.filter(isTextFile).filter((file) => !fileName || file.name === fileName)
+    if (files.length === 0) {
+      return { matches: [], note: "No text attachments to search", files: context.files.map((file) => file.name) }
+    }
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+    const matches = files.flatMap((file) => {
+      const lines = fileText(file).split(/\r?\n/)
+      return lines
+        .map((line, index) => ({ index, score: words.filter((word) => line.toLowerCase().includes(word)).length }))
+        .filter((match) => match.score > 0)
+        .map((match) => ({
+          file: file.name,
+          line: match.index + 1,
+          score: match.score,
+          text: lines.slice(Math.max(0, match.index - CONTEXT_LINES), match.index + CONTEXT_LINES + 1).join("\n"),
+        }))
+    })
+    matches.sort((a, b) => b.score - a.score)
+    return { matches: matches.slice(0, MAX_MATCHES).map(({ score: _score, ...match }) => match) }
+  },
+}
@@ -0,0 +1,90 @@
+import type { ToolCall, ToolDeclaration } from "@/lib/providers"
+import { calculatorTool } from "./calculator"
+import { datetimeTool } from "./datetime"
+import { fileLookupTool } from "./file-lookup"
+import { runAnalysisTool } from "./run-analysis"
+import { tableQueryTool } from "./table-query"
+import type { Tool, ToolContext, ToolInvocation, ToolParameters } from "./types"
+import { webSearchTool } from "./web-search"
+
+// Functions answer steps can let the model call (see `tools` on AnswerStep). New ones only need to implement
+// `Tool` and be registered here.
+
+const tools = new Map<string, Tool<any>>()
+
+export function registerTool<P extends ToolParameters>(tool: Tool<P>) {
+  tools.set(tool.name, tool)
+}
+
+export function getTool(name: string) {
+  return tools.get(name)
+}
+
+export function listTools() {
+  return Array.from(tools.values())
+}
+
+registerTool(calculatorTool)
+registerTool(datetimeTool)
+registerTool(webSearchTool)
+registerTool(fileLookupTool)
+registerTool(tableQueryTool)
+registerTool(runAnalysisTool)
+
+export function toolDeclaration(tool: Tool<any>): ToolDeclaration {
+  const parameters = tool.parameters as ToolParameters
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(parameters).map(([name, { type, description, enum: values }]) => [
+          name,
+          { type, description, ...(values ? { enum: values } : {}) },
+        ]),
+      ),
+      required: Object.keys(parameters).filter((name) => !parameters[name].optional),
+    },
+  }
+}
+
+// Checks the model's arguments against the tool's parameters; numbers and booleans sent as strings are converted
+export function parseToolArgs(tool: Tool<any>, args: Record<string, unknown>) {
+  const parameters = tool.parameters as ToolParameters
+  const parsed: Record<string, unknown> = {}
+  for (const [name, parameter] of Object.entries(parameters)) {
+    let value = args[name]
+    if (value === undefined || value === null || value === "") {
+      if (!parameter.optional) throw new Error(`Missing argument "${name}"`)
+      continue
+    }
+    if (parameter.type === "number" && typeof value === "string") value = Number(value)
+    if (parameter.type === "boolean" && typeof value === "string") value = value === "true"
+    if (parameter.type === "number" ? !Number.isFinite(value) : typeof value !== parameter.type) {
+      throw new Error(`Argument "${name}" must be a ${parameter.type}`)
+    }
+    if (parameter.enum && !parameter.enum.includes(value as string)) {
+      throw new Error(`Argument "${name}" must be one of ${parameter.enum.join(", ")}`)
+    }
+    parsed[name] = value
+  }
+  return parsed
+}
+
+// Runs one call. Failures are recorded rather than thrown so the model can read the error and try again.
+export async function invokeTool(call: ToolCall, context: ToolContext): Promise<ToolInvocation> {
+  const startedAt = Date.now()
+  const tool = tools.get(call.name)
+  try {
+    if (!tool) throw new Error(`Unknown tool "${call.name}"`)
+    const output = await tool.run(parseToolArgs(tool, call.args) as any, context)
+    return { name: call.name, args: call.args, output, durationMs: Date.now() - startedAt }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`[tools] ${call.name} failed:`, message)
+    return { name: call.name, args: call.args, error: message, durationMs: Date.now() - startedAt }
+  }
+}
+
+export type * from "./types"
@@ -0,0 +1,44 @@
+import { runInSandbox, type SandboxTable } from "@/lib/sandbox"
+import { tableLabel } from "./table-query"
+import type { Tool } from "./types"
+
+// Results longer than this are cut before they go back to the model
+const MAX_OUTPUT_CHARS = 20000
+
+export const runAnalysisTool: Tool<{
+  code: { type: "string"; description: string }
+}> = {
+  name: "run_analysis",
+  description:
+    "Runs JavaScript over every row of the spreadsheets and CSV files the user provided and returns what it " +
+    "returns. The code is the body of a function called with `tables`, an array of { name, columns, rows } where " +
+    "each row is an object keyed by column name (numbers are numbers, dates are ISO strings, empty cells null). " +
+    "Return a JSON-serializable value, e.g. totals per month; console.log output comes back too. No imports, " +
+    "network, timers or async code.",
+  parameters: {
+    code: {
+      type: "string",
+      description: 'Function body, e.g. const t = tables.find((t) => t.name.endsWith("Sales")); return t.rows.length',
+    },
+  },
+  run: async ({ code }, context) => {
+    if (context.tables.length === 0) return { note: "No spreadsheets or CSV files in this conversation" }
+    const tables: SandboxTable[] = context.tables.map((table) => {
+      const columns = table.columns.map((column) => column.name)
+      return {
+        name: tableLabel(table),
+        columns,
+        rows: table.rows.map((row) => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? null]))),
+      }
+    })
+    const run = await runInSandbox(code, tables)
+    // failures go back to the model as errors so it can fix the code
+    if (run.error !== undefined) {
+      throw new Error(run.logs.length > 0 ? `${run.error}\nLogs:\n${run.logs.join("\n")}` : run.error)
+    }
+    const output = { result: run.result, ...(run.logs.length > 0 ? { logs: run.logs } : {}) }
+    const json = JSON.stringify(output)
+    if (json.length <= MAX_OUTPUT_CHARS) return output
+    return { truncated: `${json.slice(0, MAX_OUTPUT_CHARS)}…`, note: "Result too long; return a smaller summary" }
+  },
+}
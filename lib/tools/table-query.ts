@@ -0,0 +1,152 @@
+import type { CellValue } from "@/lib/file-utils"
+import type { DocumentTable } from "@/lib/retrieval/types"
+import type { Tool } from "./types"
+
+// Filters, groups and aggregates the full rows of the spreadsheets and CSV files in the request, which the prompt
+// only describes by their columns and statistics
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+const MAX_GROUPS = 50
+
+const OPERATIONS = ["rows", "count", "sum", "mean", "min", "max", "distinct"] as const
+const COMPARISONS = ["=", "!=", ">", ">=", "<", "<=", "contains"] as const
+
+type Operation = (typeof OPERATIONS)[number]
+type Comparison = (typeof COMPARISONS)[number]
+
+// "report.xlsx › Sales", or just the file name for a CSV file
+export function tableLabel(table: DocumentTable) {
+  return table.name === table.documentName ? table.name : `${table.documentName} › ${table.name}`
+}
+
+function findTable(tables: DocumentTable[], name?: string) {
+  if (!name) {
+    if (tables.length === 1) return tables[0]
+    throw new Error(`Several tables are attached, name one of: ${tables.map(tableLabel).join("; ")}`)
+  }
+  const wanted = name.trim().toLowerCase()
+  const table =
+    tables.find((table) => tableLabel(table).toLowerCase() === wanted) ??
+    tables.find((table) => table.name.toLowerCase() === wanted || table.documentName.toLowerCase() === wanted)
+  if (!table) throw new Error(`No table "${name}"; tables: ${tables.map(tableLabel).join("; ")}`)
+  return table
+}
+
+function columnIndex(table: DocumentTable, name: string) {
+  const index = table.columns.findIndex((column) => column.name.toLowerCase() === name.trim().toLowerCase())
+  if (index < 0)
+    throw new Error(`No column "${name}"; columns: ${table.columns.map((column) => column.name).join(", ")}`)
+  return index
+}
+
+// Numbers compare as numbers, everything else as case-insensitive text
+function matches(cell: CellValue, comparison: Comparison, value: string) {
+  if (cell === null) return comparison === "!="
+  if (comparison === "contains") return String(cell).toLowerCase().includes(value.toLowerCase())
+  const numeric = typeof cell === "number" && value.trim() !== "" && Number.isFinite(Number(value))
+  const left = numeric ? (cell as number) : String(cell).toLowerCase()
+  const right = numeric ? Number(value) : value.toLowerCase()
+  switch (comparison) {
+    case "=":
+      return left === right
+    case "!=":
+      return left !== right
+    case ">":
+      return left > right
+    case ">=":
+      return left >= right
+    case "<":
+      return left < right
+    case "<=":
+      return left <= right
+  }
+}
+
+function aggregate(operation: Exclude<Operation, "rows">, values: CellValue[]) {
+  const present = values.filter((value) => value !== null)
+  if (operation === "count") return present.length
+  if (operation === "distinct") return new Set(present.map(String)).size
+  if (operation === "min" || operation === "max") {
+    if (present.length === 0) return null
+    return present.reduce((best, value) => ((operation === "min" ? value < best : value > best) ? value : best))
+  }
+  const numbers = present.filter((value): value is number => typeof value === "number")
+  if (numbers.length === 0) return null
+  const sum = numbers.reduce((total, value) => total + value, 0)
+  return operation === "sum" ? sum : sum / numbers.length
+}
+
+export const tableQueryTool: Tool<{
+  table: { type: "string"; description: string; optional: true }
+  operation: { type: "string"; description: string; enum: typeof OPERATIONS }
+  column: { type: "string"; description: string; optional: true }
+  groupBy: { type: "string"; description: string; optional: true }
+  filterColumn: { type: "string"; description: string; optional: true }
+  filterOperator: { type: "string"; description: string; enum: typeof COMPARISONS; optional: true }
+  filterValue: { type: "string"; description: string; optional: true }
+  limit: { type: "number"; description: string; optional: true }
+}> = {
+  name: "table_query",
+  description:
+    "Computes over every row of the spreadsheets and CSV files the user provided: lists matching rows, or counts, " +
+    "sums, averages, minimums, maximums or distinct values of a column, optionally filtered and grouped. Use it " +
+    "for questions about the whole dataset; the excerpts only show some rows.",
+  parameters: {
+    table: { type: "string", description: "Table as listed in the prompt, e.g. report.xlsx › Sales", optional: true },
+    operation: { type: "string", description: "What to compute", enum: OPERATIONS },
+    column: { type: "string", description: "Column to aggregate; not needed for rows and count", optional: true },
+    groupBy: { type: "string", description: "Column whose values split the rows into groups", optional: true },
+    filterColumn: { type: "string", description: "Only keep rows whose value in this column matches", optional: true },
+    filterOperator: {
+      type: "string",
+      description: "Comparison for the filter, = by default",
+      enum: COMPARISONS,
+      optional: true,
+    },
+    filterValue: { type: "string", description: "Value the filter compares with", optional: true },
+    limit: { type: "number", description: `Rows or groups to return (default ${DEFAULT_LIMIT})`, optional: true },
+  },
+  run: (args, context) => {
+    if (context.tables.length === 0) return { note: "No spreadsheets or CSV files in this conversation" }
+    const table = findTable(context.tables, args.table)
+    const limit = Math.min(Math.max(1, Math.floor(args.limit ?? DEFAULT_LIMIT)), MAX_LIMIT)
+    let rows = table.rows
+    if (args.filterColumn) {
+      if (args.filterValue === undefined) throw new Error("filterValue is required with filterColumn")
+      const index = columnIndex(table, args.filterColumn)
+      rows = rows.filter((row) => matches(row[index], args.filterOperator ?? "=", args.filterValue!))
+    }
+    const columns = table.columns.map((column) => column.name)
+    if (args.operation === "rows") {
+      return { table: tableLabel(table), matched: rows.length, columns, rows: rows.slice(0, limit) }
+    }
+    const operation = args.operation
+    if (operation !== "count" && !args.column) throw new Error(`column is required for ${operation}`)
+    const valueIndex = args.column ? columnIndex(table, args.column) : -1
+    const values = (group: CellValue[][]) =>
+      valueIndex < 0 ? group.map(() => 1) : group.map((row) => row[valueIndex] ?? null)
+    if (!args.groupBy)
+      return { table: tableLabel(table), matched: rows.length, value: aggregate(operation, values(rows)) }
+    const groupIndex = columnIndex(table, args.groupBy)
+    const groups = new Map<string, CellValue[][]>()
+    for (const row of rows) {
+      const key = String(row[groupIndex] ?? "")
+      if (!groups.has(key)) groups.set(key, [])
+      groups.get(key)!.push(row)
+    }
+    const results = [...groups.entries()]
+      .map(([group, members]) => ({ group, rows: members.length, value: aggregate(operation, values(members)) }))
+      // largest values first; groups of text values (min or max of a text column) by size
+      .sort((a, b) =>
+        typeof a.value === "number" && typeof b.value === "number" ? b.value - a.value : b.rows - a.rows,
+      )
+    const shown = Math.min(limit, MAX_GROUPS)
+    return {
+      table: tableLabel(table),
+      matched: rows.length,
+      groups: results.slice(0, shown),
+      ...(results.length > shown ? { moreGroups: results.length - shown } : {}),
+    }
+  },
+}
@@ -0,0 +1,56 @@
+import type { FileAttachment } from "@/lib/providers"
+import type { DocumentTable } from "@/lib/retrieval/types"
+
+// One parameter of a tool, in the subset of JSON schema every function-calling model understands
+export type ToolParameter = {
+  type: "string" | "number" | "boolean"
+  description: string
+  enum?: readonly string[]
+  optional?: boolean
+}
+
+export type ToolParameters = Record<string, ToolParameter>
+
+type ParameterValue<P extends ToolParameter> = P["type"] extends "number"
+  ? number
+  : P["type"] extends "boolean"
+    ? boolean
+    : P["enum"] extends readonly string[]
+      ? P["enum"][number]
+      : string
+
+// Arguments a handler receives, already checked against its parameters
+export type ToolArgs<P extends ToolParameters> = {
+  [K in keyof P as P[K]["optional"] extends true ? never : K]: ParameterValue<P[K]>
+} & {
+  [K in keyof P as P[K]["optional"] extends true ? K : never]?: ParameterValue<P[K]>
+}
+
+// What a tool can use from the request it runs in
+export type ToolContext = {
+  files: FileAttachment[]
+  // spreadsheets and CSV files of the question and the retrieved documents, with all their rows
+  tables: DocumentTable[]
+  // overrides the search provider, like it does for search steps
+  searchProvider?: string
+  // adds the price of paid calls (search APIs) to the answer step's cost
+  charge: (costUsd: number) => void
+}
+
+export type Tool<P extends ToolParameters = ToolParameters> = {
+  // letters, digits and underscores; this is what the model calls
+  name: string
+  description: string
+  parameters: P
+  // the return value is sent back to the model as JSON
+  run: (args: ToolArgs<P>, context: ToolContext) => unknown | Promise<unknown>
+}
+
+// One call the model made, as recorded in the answer step's trace
+export type ToolInvocation = {
+  name: string
+  args: Record<string, unknown>
+  output?: unknown
+  error?: string
+  durationMs: number
+}
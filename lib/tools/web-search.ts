@@ -0,0 +1,31 @@
+import { resolveSearchProvider, searchWithFallback } from "@/lib/providers"
+import type { Tool } from "./types"
+
+const DEFAULT_SEARCH_PROVIDER = "perplexity"
+const MAX_RESULTS = 5
+const MAX_SNIPPET_CHARS = 500
+
+export const webSearchTool: Tool<{
+  query: { type: "string"; description: string }
+}> = {
+  name: "web_search",
+  description:
+    "Searches the web and returns a short summary with the top sources. Use it for recent events, prices, " +
+    "or facts you are not sure about.",
+  parameters: {
+    query: { type: "string", description: "A short search query" },
+  },
+  run: async ({ query }, context) => {
+    const providerId = resolveSearchProvider(DEFAULT_SEARCH_PROVIDER, context.searchProvider)
+    const { result, costUsd } = await searchWithFallback(providerId, query)
+    context.charge(costUsd ?? 0)
+    return {
+      summary: result.answer,
+      results: result.results.slice(0, MAX_RESULTS).map((item) => ({
+        title: item.title,
+        url: item.url,
+        snippet: item.content.slice(0, MAX_SNIPPET_CHARS),
+      })),
+    }
+  },
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import type { ProviderMessage } from "@/lib/providers"
+import { estimateTokens, groupTurns, planContext } from "./context"
+
+function conversation(...questions: string[]): ProviderMessage[] {
+  return questions.flatMap((question, index) => [
+    { role: "user" as const, content: question },
+    { role: "assistant" as const, content: `Trả lời ${index + 1}` },
+  ])
+}
+
+const questions = (messages: ProviderMessage[]) =>
+  messages.filter((message) => message.role === "user").map((message) => message.content)
+
+describe("groupTurns", () => {
+  it("starts a turn at every user message and estimates its tokens", () => {
+    const turns = groupTurns(conversation("Xin chào", "Dự án thế nào?"))
+    expect(turns.map((turn) => turn.messages.length)).toEqual([2, 2])
+    expect(turns[0].tokens).toBe(estimateTokens("Xin chào") + estimateTokens("Trả lời 1"))
+  })
+})
+
+describe("planContext", () => {
+  it("sends a short conversation as it is", () => {
+    const earlier = conversation("Câu một", "Câu hai")
+    expect(planContext(earlier, "Câu ba")).toMatchObject({ messages: earlier, fold: [], kept: 2, relevant: [] })
+  })
+
+  it("folds the older half once the window reaches twice the recent turns", () => {
+    const earlier = conversation(...Array.from({ length: 9 }, (_, i) => `Câu hỏi số ${i + 1}`))
+    const plan = planContext(earlier, "Câu tiếp theo")
+    expect(plan.kept).toBe(4)
+    expect(plan.fold.map((turn) => turn.index)).toEqual([0, 1, 2, 3, 4])
+  })
+
+  it("brings back older turns that share the question's terms", () => {
+    const earlier = conversation(
+      "Ngân sách marketing quý một là bao nhiêu?",
+      ...Array.from({ length: 8 }, (_, i) => `Chuyện khác ${i + 1}`),
+    )
+    const plan = planContext(earlier, "Nhắc lại ngân sách marketing")
+    expect(plan.relevant).toEqual([0])
+    expect(questions(plan.messages)[0]).toBe("Ngân sách marketing quý một là bao nhiêu?")
+  })
+
+  it("drops the oldest turns of the window that don't fit the budget", () => {
+    const earlier = conversation("a".repeat(400), "b".repeat(400), "Câu ngắn")
+    const plan = planContext(earlier, "Câu hỏi", undefined, 150)
+    expect(questions(plan.messages)).toEqual(["b".repeat(400), "Câu ngắn"])
+    expect(plan.fold.map((turn) => turn.index)).toEqual([0])
+  })
+
+  it("ignores a summary of more turns than the conversation has", () => {
+    const earlier = conversation("Câu một")
+    expect(planContext(earlier, "Câu hai", { text: "Tóm tắt cũ", turns: 5 }).summary).toBeUndefined()
+    expect(planContext(earlier, "Thời tiết hôm nay", { text: "Tóm tắt", turns: 1 })).toMatchObject({
+      summary: { text: "Tóm tắt", turns: 1 },
+      messages: [],
+      fold: [],
+    })
+  })
+})
@@ -0,0 +1,189 @@
+import {
+  estimateCost,
+  getProvider,
+  messageText,
+  withRetry,
+  type ProviderMessage,
+  type TokenUsage,
+} from "@/lib/providers"
+import { envNumber } from "@/lib/env"
+import type { ConversationSummary } from "@/lib/history/types"
+import type { Messages } from "@/lib/i18n"
+import { formatTranscript, renderPrompt } from "./format"
+import type { PromptCatalog } from "./prompts"
+
+// Keeps long conversations inside a token budget. The last turns go to the model verbatim, older ones are folded
+// into a rolling summary stored on the session, and older turns that share terms with the question are brought
+// back verbatim while the budget allows.
+
+const RECENT_TURNS = envNumber("CONTEXT_RECENT_TURNS", 4)
+const TOKEN_BUDGET = envNumber("CONTEXT_TOKEN_BUDGET", 6000)
+const RELEVANT_TURNS = 2
+const MIN_RELEVANCE = 0.3
+const SUMMARY_WORDS = 200
+
+// A user message and the replies to it; `index` is its position in the session
+export type ConversationTurn = {
+  index: number
+  messages: ProviderMessage[]
+  tokens: number
+}
+
+export type ContextPlan = {
+  // earlier messages to send, oldest first, without the current question
+  messages: ProviderMessage[]
+  // the stored summary, when it still matches the conversation
+  summary?: ConversationSummary
+  // turns that no longer fit and have to be folded into the summary
+  fold: ConversationTurn[]
+  kept: number
+  // older turns brought back for the question
+  relevant: number[]
+}
+
+// About four characters per token; good enough for budgeting without a tokenizer per provider
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4)
+}
+
+function turnTokens(turns: ConversationTurn[]) {
+  return turns.reduce((total, turn) => total + turn.tokens, 0)
+}
+
+export function groupTurns(messages: ProviderMessage[]): ConversationTurn[] {
+  const turns: ConversationTurn[] = []
+  for (const message of messages) {
+    const current = turns[turns.length - 1]
+    if (message.role === "user" || !current) {
+      turns.push({ index: turns.length, messages: [message], tokens: 0 })
+    } else {
+      current.messages.push(message)
+    }
+    turns[turns.length - 1].tokens += estimateTokens(messageText(message))
+  }
+  return turns
+}
+
+function terms(text: string) {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) ?? [])
+}
+
+// Share of the question's terms a turn contains, weighted so that words found in most turns count for little
+function rankByRelevance(turns: ConversationTurn[], question: string) {
+  const wanted = terms(question)
+  if (wanted.size === 0 || turns.length === 0) return []
+  const turnTerms = turns.map((turn) => terms(turn.messages.map(messageText).join("\n")))
+  const weight = (term: string) => {
+    const frequency = turnTerms.filter((set) => set.has(term)).length
+    return Math.log(1 + turns.length / Math.max(1, frequency))
+  }
+  const total = Array.from(wanted).reduce((sum, term) => sum + weight(term), 0)
+  return turns
+    .map((turn, i) => {
+      const shared = Array.from(wanted).filter((term) => turnTerms[i].has(term))
+      return { turn, score: shared.reduce((sum, term) => sum + weight(term), 0) / total }
+    })
+    .filter((entry) => entry.score >= MIN_RELEVANCE)
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.turn)
+}
+
+// Decides what of the earlier conversation the model sees. Turns are folded in batches: the verbatim window grows
+// to twice RECENT_TURNS before the older half goes into the summary, so most requests make no summary call.
+export function planContext(
+  earlier: ProviderMessage[],
+  question: string,
+  summary?: ConversationSummary,
+  budget = TOKEN_BUDGET,
+): ContextPlan {
+  const turns = groupTurns(earlier)
+  // a summary of more turns than the conversation has belongs to an earlier history, e.g. before it was cleared
+  const previous = summary && summary.turns <= turns.length ? summary : undefined
+  const unsummarized = turns.slice(previous?.turns ?? 0)
+  let window = unsummarized.length > RECENT_TURNS * 2 ? unsummarized.slice(-RECENT_TURNS) : unsummarized
+  let available = budget - estimateTokens(question) - estimateTokens(previous?.text ?? "")
+  while (window.length > 1 && turnTokens(window) > available) window = window.slice(1)
+  available -= turnTokens(window)
+
+  const older = turns.slice(0, turns.length - window.length)
+  const relevant: ConversationTurn[] = []
+  for (const turn of rankByRelevance(older, question)) {
+    if (relevant.length >= RELEVANT_TURNS) break
+    if (turn.tokens > available) continue
+    relevant.push(turn)
+    available -= turn.tokens
+  }
+  relevant.sort((a, b) => a.index - b.index)
+
+  return {
+    messages: [...relevant, ...window].flatMap((turn) => turn.messages),
+    summary: previous,
+    fold: unsummarized.slice(0, unsummarized.length - window.length),
+    kept: window.length,
+    relevant: relevant.map((turn) => turn.index),
+  }
+}
+
+export type SummaryOutcome = {
+  summary: ConversationSummary
+  model: string
+  usage?: TokenUsage
+  costUsd?: number
+}
+
+type SummaryContext = {
+  // the answering model writes the summary
+  route: { providerId: string; model: string }
+  // prompts and transcript labels in the answer language
+  prompts: PromptCatalog
+  labels: Messages["answer"]
+  answerLanguage: string
+}
+
+// Folds `turns` into the previous summary. Returns null when the model call fails; the turns are then left out
+// of this request and folded on the next one.
+export async function summarizeTurns(
+  turns: ConversationTurn[],
+  previous: ConversationSummary | undefined,
+  context: SummaryContext,
+): Promise<SummaryOutcome | null> {
+  const { route, prompts } = context
+  const system = renderPrompt([prompts.summarySystem], {
+    answerLanguage: context.answerLanguage,
+    words: String(SUMMARY_WORDS),
+  })
+  const prompt = renderPrompt(
+    [{ prompt: "summaryPreviousSection", when: "summary" }, { prompt: "summaryTranscriptSection" }],
+    {
+      summary: previous?.text ?? "",
+      transcript: formatTranscript(
+        turns.flatMap((turn) => turn.messages),
+        context.labels,
+      ),
+    },
+    prompts,
+  )
+  try {
+    const provider = getProvider(route.providerId, "chat")
+    const result = await withRetry(`${provider.label} ${route.model}`, () =>
+      provider.chat!({
+        model: route.model,
+        system,
+        messages: [{ role: "user", content: prompt }],
+        temperature: 0.2,
+        maxTokens: SUMMARY_WORDS * 3,
+      }),
+    )
+    const text = result.text.trim()
+    if (!text) return null
+    return {
+      summary: { text, turns: turns[turns.length - 1].index + 1 },
+      model: route.model,
+      usage: result.usage,
+      costUsd: result.usage && estimateCost(route.model, result.usage),
+    }
+  } catch (error) {
+    console.error("[context] Summarizing the conversation failed:", error)
+    return null
+  }
+}
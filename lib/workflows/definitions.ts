@@ -0,0 +1,245 @@
+import type { WorkflowDefinition } from "./types"
+
+// Prompts are named entries of the catalog in ./prompts, so every workflow can answer in any locale
+
+export const BUILTIN_WORKFLOWS: WorkflowDefinition[] = [
+  {
+    id: "single",
+    label: "Trực tiếp (Gemini)",
+    description: "ChatGPT tối ưu câu hỏi mới, Gemini trả lời với toàn bộ hội thoại",
+    i18n: {
+      en: {
+        label: "Direct (Gemini)",
+        description: "ChatGPT optimizes the new question, Gemini answers with the whole conversation",
+      },
+    },
+    icon: "bot",
+    steps: [
+      {
+        kind: "rewrite",
+        label: "ChatGPT sinh prompt",
+        i18n: { en: { label: "ChatGPT writes the prompt" } },
+        provider: "openai",
+        model: "gpt-4o-mini",
+        system: { prompt: "contentSystem" },
+        scope: "history",
+        optional: true,
+        temperature: 0,
+        topP: 0,
+        maxTokens: 400,
+      },
+      {
+        kind: "answer",
+        label: "Gemini trả lời",
+        i18n: { en: { label: "Gemini answers" } },
+        system: { prompt: "plainTextSystem" },
+        input: "history",
+        attachFiles: true,
+        tools: ["calculator", "current_datetime", "web_search", "file_lookup", "table_query"],
+        maxTokens: 1000,
+      },
+      {
+        kind: "postprocess",
+        label: "Làm sạch định dạng",
+        i18n: { en: { label: "Clean up formatting" } },
+        stripMarkdown: true,
+        references: "files",
+      },
+    ],
+  },
+  {
+    id: "chatgpt-to-gemini",
+    label: "ChatGPT → Gemini",
+    description: "ChatGPT sinh prompt, Gemini trả lời",
+    i18n: { en: { description: "ChatGPT writes the prompt, Gemini answers" } },
+    icon: "flask",
+    color: "blue",
+    steps: [
+      {
+        kind: "rewrite",
+        label: "ChatGPT sinh prompt",
+        i18n: { en: { label: "ChatGPT writes the prompt" } },
+        provider: "openai",
+        model: "gpt-4o-mini",
+        system: { prompt: "contentSystem" },
+        optional: true,
+        temperature: 0,
+        topP: 0,
+        maxTokens: 400,
+      },
+      {
+        kind: "answer",
+        label: "Gemini trả lời",
+        i18n: { en: { label: "Gemini answers" } },
+        input: "replace-last",
+        prompt: [
+          { prompt: "optimizedPromptWithContext", when: "context" },
+          { text: "{rewrite}", unless: "context" },
+        ],
+      },
+    ],
+  },
+  {
+    id: "perplexity-to-gemini",
+    label: "Perplexity → Gemini",
+    description: "Tìm kiếm với Perplexity, Gemini tổng hợp câu trả lời",
+    i18n: { en: { description: "Search with Perplexity, Gemini writes the answer" } },
+    icon: "zap",
+    color: "purple",
+    steps: [
+      {
+        kind: "search",
+        label: "Tìm kiếm với Perplexity",
+        i18n: { en: { label: "Search with Perplexity" } },
+        provider: "perplexity",
+        summaryFormat: { prompt: "searchSummaryFormat" },
+        referencesFormat: { prompt: "searchReferencesFormat" },
+      },
+      {
+        kind: "answer",
+        label: "Gemini trả lời",
+        i18n: { en: { label: "Gemini answers" } },
+        input: "replace-last",
+        prompt: [
+          { prompt: "searchAnswerInstructions" },
+          { prompt: "contextSection", when: "context" },
+          { prompt: "searchDataSection", when: "searchContext" },
+          { prompt: "currentQuestion" },
+        ],
+      },
+      {
+        kind: "postprocess",
+        label: "Làm sạch định dạng",
+        i18n: { en: { label: "Clean up formatting" } },
+        stripMarkdown: true,
+        references: "search",
+      },
+    ],
+  },
+  {
+    id: "perplexity-chatgpt-gemini",
+    label: "Perplexity → ChatGPT → Gemini",
+    description: "Tìm kiếm với Perplexity, ChatGPT tinh chỉnh prompt, Gemini trả lời",
+    i18n: { en: { description: "Search with Perplexity, ChatGPT refines the prompt, Gemini answers" } },
+    icon: "lightbulb",
+    color: "purple",
+    steps: [
+      {
+        kind: "search",
+        label: "Tìm kiếm với Perplexity",
+        i18n: { en: { label: "Search with Perplexity" } },
+        provider: "perplexity",
+        summaryFormat: { prompt: "researchSummaryFormat" },
+        referencesFormat: { prompt: "researchReferencesFormat" },
+        emptyContext: { prompt: "researchEmptyContext" },
+      },
+      {
+        kind: "rewrite",
+        label: "ChatGPT tinh chỉnh prompt",
+        i18n: { en: { label: "ChatGPT refines the prompt" } },
+        provider: "openai",
+        model: "gpt-4",
+        system: { prompt: "researchRefineSystem" },
+        prompt: [{ prompt: "researchRefinePrompt" }],
+        temperature: 0.7,
+        maxTokens: 1000,
+      },
+      {
+        kind: "answer",
+        label: "Gemini trả lời",
+        i18n: { en: { label: "Gemini answers" } },
+        input: "prompt-only",
+        prompt: ["{rewrite}"],
+      },
+      {
+        kind: "postprocess",
+        label: "Làm sạch định dạng",
+        i18n: { en: { label: "Clean up formatting" } },
+        stripMarkdown: true,
+        references: "search",
+      },
+    ],
+  },
+  {
+    id: "analysis",
+    label: "Phân tích dữ liệu",
+    description:
+      "Gemini viết mã JavaScript, chạy trong sandbox trên toàn bộ dữ liệu bảng rồi trả lời bằng số liệu đã tính",
+    i18n: {
+      en: {
+        label: "Data analysis",
+        description:
+          "Gemini writes JavaScript that runs in a sandbox over the full table data, then answers with the computed figures",
+      },
+    },
+    icon: "chart",
+    color: "orange",
+    steps: [
+      {
+        kind: "answer",
+        label: "Gemini phân tích dữ liệu",
+        i18n: { en: { label: "Gemini analyzes the data" } },
+        system: { prompt: "analysisSystem" },
+        input: "history",
+        attachFiles: true,
+        tools: ["run_analysis", "table_query", "calculator"],
+        temperature: 0.2,
+        maxTokens: 2000,
+      },
+      {
+        kind: "postprocess",
+        label: "Làm sạch định dạng",
+        i18n: { en: { label: "Clean up formatting" } },
+        stripMarkdown: true,
+        references: "files",
+      },
+    ],
+  },
+  {
+    id: "deep-research",
+    label: "Nghiên cứu sâu",
+    description: "Chia nhỏ câu hỏi, tìm kiếm nhiều vòng, đọc nguồn rồi tổng hợp câu trả lời có trích dẫn",
+    i18n: {
+      en: {
+        label: "Deep research",
+        description: "Splits the question, searches over several rounds, reads the sources and writes a cited answer",
+      },
+    },
+    icon: "sparkles",
+    color: "emerald",
+    // switched on by the "Nghiên cứu sâu" toggle rather than picked as a workflow
+    hidden: true,
+    steps: [
+      {
+        kind: "research",
+        label: "Nghiên cứu nhiều vòng",
+        i18n: { en: { label: "Multi-round research" } },
+        provider: "perplexity",
+        rounds: 2,
+        queriesPerRound: 3,
+        maxSources: 8,
+      },
+      {
+        kind: "answer",
+        label: "Tổng hợp câu trả lời",
+        i18n: { en: { label: "Write the answer" } },
+        input: "replace-last",
+        prompt: [
+          { prompt: "deepResearchInstructions" },
+          { prompt: "contextSection", when: "context" },
+          { prompt: "deepResearchSummarySection", when: "searchSummary" },
+          { prompt: "deepResearchSourcesSection", when: "searchContext" },
+          { prompt: "currentQuestion" },
+        ],
+        maxTokens: 4000,
+      },
+      {
+        kind: "postprocess",
+        label: "Làm sạch định dạng",
+        i18n: { en: { label: "Clean up formatting" } },
+        stripMarkdown: true,
+        references: "search",
+      },
+    ],
+  },
+]
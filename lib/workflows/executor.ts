@@ -0,0 +1,694 @@
+import {
+  appendToLastUser,
+  estimateCost,
+  filesToParts,
+  generateWithFallback,
+  getProvider,
+  messageText,
+  normalizeMessages,
+  resolveSearchProvider,
+  searchWithFallback,
+  sumUsage,
+  uploadedFilesToParts,
+  withRetry,
+  type ChatRequest,
+  type FallbackResult,
+  type FileAttachment,
+  type Provider,
+  type ProviderMessage,
+  type SearchReference,
+  type SearchResult,
+  type TokenUsage,
+  type UploadedFile,
+} from "@/lib/providers"
+import { normalizeQuestion, withCache } from "@/lib/cache"
+import { DEFAULT_LOCALE, detectLanguage, getMessages, interpolate, type Locale, type Messages } from "@/lib/i18n"
+import type { ConversationSummary } from "@/lib/history/types"
+import { hasDocuments, retrieve, type DocumentTable } from "@/lib/retrieval"
+import { loadPrompts, type TemplateRef } from "@/lib/templates"
+import { planContext, summarizeTurns } from "./context"
+import { generateWithTools, type ToolLoopResult } from "./tools"
+import {
+  buildConversationContext,
+  extractCharts,
+  formatExcerpts,
+  formatTables,
+  formatReferences,
+  formatTranscript,
+  MAX_REFERENCES,
+  parseJsonAnswer,
+  preview,
+  renderPrompt,
+  stripMarkdown,
+  stripReferenceSection,
+  validateCitations,
+} from "./format"
+import { isPromptName, type PromptCatalog, type PromptName } from "./prompts"
+import { localize } from "./registry"
+import { runResearch } from "./research"
+import type {
+  AnswerStep,
+  ChartSpec,
+  OutputFormat,
+  PostprocessStep,
+  PromptSection,
+  ResearchStep,
+  RewriteStep,
+  SearchStep,
+  StepTrace,
+  UsageSummary,
+  WorkflowDefinition,
+  WorkflowProgress,
+  WorkflowResult,
+  WorkflowStep,
+} from "./types"
+
+export type WorkflowInput = {
+  messages: any[]
+  // model picked in the UI, already resolved through MODEL_MAPPING
+  route: { providerId: string; model: string }
+  files: FileAttachment[]
+  // false skips the answer cache for this request
+  cache?: boolean
+  // overrides the search provider named by search/research steps
+  searchProvider?: string
+  // defaults to plain text; JSON answers can be constrained by a JSON schema
+  format?: OutputFormat
+  schema?: Record<string, unknown>
+  // UI language: step labels and progress messages. Defaults to Vietnamese.
+  locale?: Locale
+  // language of the answer; "auto" detects it from the question. Defaults to the UI language.
+  language?: Locale | "auto"
+  // rolling summary of the session's older turns, updated when more of them no longer fit the context
+  summary?: ConversationSummary
+  // document indexes the final answer retrieves excerpts from; the question's readable attachments are added to
+  // the first one (the session's)
+  collections?: string[]
+  // Set when the client asked for SSE; receives the final answer step token by token
+  onDelta?: (text: string) => void
+  // Receives a message when each step starts, plus finer updates from long steps
+  onProgress?: (progress: WorkflowProgress) => void
+}
+
+type WorkflowState = {
+  input: WorkflowInput
+  // prompts and answer labels follow the answer language, `messages` the UI language
+  language: Locale
+  catalog: PromptCatalog
+  messages: Messages
+  history: ProviderMessage[]
+  // prompts earlier requests returned for user turns, by message (the history is trimmed before steps run)
+  storedRewrites: Map<ProviderMessage, string>
+  // attachments the model still gets as files; documents read on the server reach it as retrieved excerpts
+  files: FileAttachment[]
+  // every row of the spreadsheets among them, for the table_query tool
+  tables: DocumentTable[]
+  vars: Record<string, string>
+  search?: SearchResult
+  references: SearchReference[]
+  uploadedFiles: UploadedFile[] | null
+  prompts: WorkflowResult["prompts"]
+  rewrittenPrompt?: string
+  answer: string
+  text: string
+  charts: ChartSpec[]
+  result?: FallbackResult
+}
+
+type StepOutcome = Omit<StepTrace, "index" | "kind" | "label" | "durationMs">
+
+type ProgressReporter = (progress: Omit<WorkflowProgress, "step" | "label">) => void
+
+async function runSearch(step: SearchStep, state: WorkflowState): Promise<StepOutcome> {
+  const searchId = resolveSearchProvider(step.provider, state.input.searchProvider)
+  const { providerId, result: search, cached, usage, costUsd } = await searchWithFallback(searchId, state.vars.question)
+  const summary = typeof search?.answer === "string" ? search.answer.trim() : ""
+  const results = Array.isArray(search?.results) ? search.results : []
+  state.search = search
+  state.references = results.slice(0, MAX_REFERENCES)
+  state.vars.searchSummary = summary
+  state.vars.references = formatReferences(state.references, getMessages(state.language).answer)
+  const sections: string[] = []
+  if (summary) sections.push(renderPrompt([step.summaryFormat], state.vars, state.catalog))
+  if (state.references.length) sections.push(renderPrompt([step.referencesFormat], state.vars, state.catalog))
+  state.vars.searchContext =
+    sections.join("\n\n") || (step.emptyContext ? renderPrompt([step.emptyContext], state.vars, state.catalog) : "")
+  console.log(`[workflow] ${step.label}:`, { hasAnswer: !!summary, resultsCount: results.length })
+  return {
+    provider: providerId,
+    input: state.vars.question,
+    output: summary || state.messages.progress.noSearchSummary,
+    usage,
+    costUsd,
+    details: { resultsCount: results.length, summary: summary || null, references: results, cached },
+  }
+}
+
+async function runResearchStep(
+  step: ResearchStep,
+  state: WorkflowState,
+  report: ProgressReporter,
+): Promise<StepOutcome> {
+  const searchProviderId = resolveSearchProvider(step.provider, state.input.searchProvider)
+  const { queries, summaries, sources, usage, costUsd } = await runResearch(step, {
+    question: state.vars.question,
+    route: state.input.route,
+    searchProviderId,
+    prompts: state.catalog,
+    messages: state.messages.progress,
+    report,
+  })
+  // The answer cites sources by their position in this list, so references keep the same numbering
+  state.references = sources.map(({ title, url, content }) => ({ title, url, content: preview(content, 300) }))
+  state.search = { answer: summaries.join("\n\n"), results: state.references }
+  state.vars.searchSummary = summaries.join("\n\n")
+  const labels = getMessages(state.language).answer
+  state.vars.references = formatReferences(state.references, labels)
+  state.vars.subQueries = queries.map((query) => `- ${query}`).join("\n")
+  state.vars.searchContext = sources
+    .map((source, index) => `[${index + 1}] ${source.title} - ${source.url || labels.noUrl}\n${source.excerpt}`)
+    .join("\n\n")
+  return {
+    provider: searchProviderId,
+    input: state.vars.question,
+    output: interpolate(state.messages.progress.researchOutput, { queries: queries.length, sources: sources.length }),
+    usage,
+    costUsd,
+    details: { queries, summaries, references: state.references },
+  }
+}
+
+// `rewrittenPrompt` of each request message, keyed by its normalized message (normalizing drops system messages)
+function storedRewrites(messages: any[], history: ProviderMessage[]) {
+  const rewrites = new Map<ProviderMessage, string>()
+  ;(messages || [])
+    .filter((msg) => msg?.role !== "system")
+    .forEach((msg, index) => {
+      if (typeof msg?.rewrittenPrompt === "string" && msg.rewrittenPrompt)
+        rewrites.set(history[index], msg.rewrittenPrompt)
+    })
+  return rewrites
+}
+
+// Usage is only set when the model was actually called (not on a cache hit or a skipped optional failure)
+async function rewriteText(
+  step: RewriteStep,
+  provider: Provider,
+  system: string,
+  text: string,
+): Promise<{ text: string; usage?: TokenUsage }> {
+  const request: ChatRequest = {
+    model: step.model,
+    system,
+    messages: [{ role: "user", content: text }],
+    temperature: step.temperature ?? 0.7,
+    topP: step.topP,
+    maxTokens: step.maxTokens ?? 1000,
+  }
+  let usage: TokenUsage | undefined
+  try {
+    const { value } = await withCache("rewrite", { provider: provider.id, ...request }, async () => {
+      const result = await withRetry(`${provider.label} ${step.model}`, () => provider.chat!(request))
+      usage = result.usage
+      return String(result.text || text)
+    })
+    return { text: value, usage }
+  } catch (error) {
+    if (!step.optional) throw error
+    console.error(`[workflow] ${step.label} failed, keeping original text:`, error)
+    return { text }
+  }
+}
+
+async function runRewrite(step: RewriteStep, state: WorkflowState): Promise<StepOutcome> {
+  let provider: Provider | null = null
+  try {
+    provider = getProvider(step.provider, "chat")
+  } catch (error) {
+    if (!step.optional) throw error
+  }
+  const system = renderPrompt([step.system], state.vars, state.catalog)
+  const usages: Array<TokenUsage | undefined> = []
+  const priced = () => {
+    const usage = sumUsage(usages)
+    return { usage, costUsd: usage && estimateCost(step.model, usage) }
+  }
+  if (step.scope === "history") {
+    // Only the new question is rewritten. Earlier user turns reuse the prompt their own request produced, which the
+    // client sends back as `rewrittenPrompt`, so a request costs one rewrite however long the conversation is.
+    const last = state.history.length - 1
+    let reused = 0
+    state.history = state.history.map((message, index) => {
+      const stored = state.storedRewrites.get(message)
+      if (index === last || message.role !== "user" || typeof message.content !== "string" || !stored) return message
+      reused++
+      return { ...message, content: stored }
+    })
+    const current = state.history[last]
+    if (typeof current?.content === "string") {
+      const rewritten = provider ? await rewriteText(step, provider, system, current.content) : null
+      const output = rewritten?.text ?? current.content
+      usages.push(rewritten?.usage)
+      state.history = [...state.history.slice(0, last), { ...current, content: output }]
+      state.prompts.push({ input: { system, user: current.content }, output })
+      state.rewrittenPrompt = output
+    }
+    state.vars.rewrite = state.rewrittenPrompt ?? state.vars.question
+    return {
+      provider: step.provider,
+      model: step.model,
+      input: state.vars.question,
+      output: state.vars.rewrite,
+      ...priced(),
+      details: { reusedPrompts: reused },
+    }
+  }
+  const prompt = renderPrompt(step.prompt ?? ["{question}"], state.vars, state.catalog)
+  const rewritten = provider ? await rewriteText(step, provider, system, prompt) : null
+  state.vars.rewrite = rewritten?.text ?? state.vars.question
+  usages.push(rewritten?.usage)
+  return { provider: step.provider, model: step.model, input: prompt, output: state.vars.rewrite, ...priced() }
+}
+
+async function runAnswer(
+  step: AnswerStep,
+  state: WorkflowState,
+  isFinal: boolean,
+  report: ProgressReporter,
+): Promise<StepOutcome> {
+  const route = {
+    providerId: step.provider ?? state.input.route.providerId,
+    model: step.model ?? state.input.route.model,
+  }
+  const prompt = step.prompt ? renderPrompt(step.prompt, state.vars, state.catalog) : state.vars.question
+  let messages: ProviderMessage[]
+  if (step.input === "history") {
+    messages = state.history
+  } else if (step.input === "replace-last") {
+    messages = state.history.map((msg, index) =>
+      index === state.history.length - 1 ? { ...msg, content: prompt } : msg,
+    )
+  } else {
+    messages = [{ role: "user", content: prompt }]
+  }
+  const { files } = state
+  const jsonAnswer = isFinal && state.input.format === "json"
+  if (step.attachFiles && files.length && messages[messages.length - 1]?.role === "user") {
+    // Documents go through the provider's file API when it has one; images are always sent inline
+    const provider = getProvider(route.providerId, "chat")
+    state.uploadedFiles = provider.uploadFiles ? await provider.uploadFiles(files) : null
+    const attachments = state.uploadedFiles
+      ? [
+          ...uploadedFilesToParts(state.uploadedFiles),
+          ...filesToParts(files.filter((file) => file.type.startsWith("image/"))),
+        ]
+      : filesToParts(files)
+    messages = appendToLastUser(messages, attachments)
+  }
+  const request = {
+    // the summary of older turns stands in for them when the model gets the conversation itself
+    system:
+      renderPrompt(
+        [
+          ...(step.system ? [step.system] : []),
+          ...(step.input === "history" ? [{ prompt: "conversationSummarySection", when: "summary" }] : []),
+          ...(isFinal
+            ? [
+                { prompt: "documentsSection", when: "documents" },
+                { prompt: "tablesSection", when: "tables" },
+                { prompt: "chartsSection", when: "chartTypes" },
+              ]
+            : []),
+        ],
+        state.vars,
+        state.catalog,
+      ) || undefined,
+    messages,
+    temperature: step.temperature ?? 0.7,
+    maxTokens: step.maxTokens ?? 2000,
+    // drafts from earlier answer steps stay free-form; only the final answer has to be JSON
+    ...(jsonAnswer ? { responseFormat: { type: "json" as const, schema: state.input.schema } } : {}),
+  }
+  const onDelta = isFinal ? state.input.onDelta : undefined
+  // Gemini can't call functions while it is held to a JSON response
+  const tools = jsonAnswer ? [] : (step.tools ?? [])
+  const result: FallbackResult & Partial<ToolLoopResult> =
+    tools.length > 0
+      ? await generateWithTools(route, request, {
+          tools,
+          context: { files: state.input.files, tables: state.tables, searchProvider: state.input.searchProvider },
+          onDelta,
+          onToolCall: (call) => report({ message: interpolate(state.messages.progress.tool, { name: call.name }) }),
+        })
+      : await generateWithFallback(route, request, onDelta)
+  const invocations = result.invocations ?? []
+  // charts leave the text before postprocessing, which would strip their code fences
+  const { text, charts, invalid } =
+    isFinal && !jsonAnswer ? extractCharts(result.text) : { text: result.text, charts: [], invalid: 0 }
+  state.result = result
+  state.charts = charts
+  state.answer = text
+  state.text = text
+  state.vars.answer = text
+  return {
+    provider: result.answeredBy.providerId,
+    model: result.answeredBy.model,
+    input: preview(prompt),
+    output: preview(result.text),
+    usage: result.usage,
+    costUsd: result.costUsd ?? (result.usage && estimateCost(result.answeredBy.model, result.usage)),
+    details: {
+      promptLength: prompt.length,
+      ...(result.failures.length ? { failures: result.failures } : {}),
+      ...(charts.length || invalid ? { charts: charts.length, invalidCharts: invalid } : {}),
+      ...(invocations.length
+        ? {
+            toolCalls: invocations.map(({ output, ...invocation }) => ({
+              ...invocation,
+              ...(output !== undefined ? { output: preview(JSON.stringify(output), 500) } : {}),
+            })),
+          }
+        : {}),
+    },
+  }
+}
+
+function runPostprocess(step: PostprocessStep, state: WorkflowState): StepOutcome {
+  const format = state.input.format ?? "text"
+  // a JSON answer is returned as the model wrote it; appending references would break it
+  if (format === "json") {
+    state.text = state.answer.trim()
+    return { output: preview(state.text), details: { originalLength: state.answer.length, skipped: "json" } }
+  }
+  // [n] markers point into the search references, which the client shows as citation chips
+  const citations = step.references === "search" ? validateCitations(state.answer, state.references.length) : null
+  const answer = citations?.text ?? state.answer
+  const cleaned = step.stripMarkdown && format === "text" ? stripMarkdown(answer) : answer.trim()
+  const responseText = stripReferenceSection(cleaned)
+  const parts = responseText ? [responseText] : []
+  const labels = getMessages(state.language).answer
+  if (step.references === "search" && state.vars.references) {
+    parts.push(`${labels.referencesHeading}:\n${state.vars.references}`)
+  }
+  if (step.references === "files") {
+    const displayFiles = (state.uploadedFiles ?? []).slice(0, MAX_REFERENCES)
+    // Ensure sources section is formatted with clickable URLs
+    parts.push(
+      displayFiles.length > 0
+        ? `${labels.referencesHeading}:\n${displayFiles.map((file, index) => `${index + 1}) ${file.name} - ${file.fileUri}`).join("\n")}`
+        : `${labels.referencesHeading}: ${labels.noReferences}`,
+    )
+  }
+  state.text = parts.length > 0 ? parts.join("\n\n") : responseText
+  return {
+    output: preview(state.text),
+    details: {
+      originalLength: state.answer.length,
+      cleanedLength: cleaned.length,
+      ...(citations ? { cited: citations.cited, invalidCitations: citations.invalid } : {}),
+    },
+  }
+}
+
+async function runStep(
+  step: WorkflowStep,
+  state: WorkflowState,
+  isFinalAnswer: boolean,
+  report: ProgressReporter,
+): Promise<StepOutcome> {
+  switch (step.kind) {
+    case "search":
+      return runSearch(step, state)
+    case "research":
+      return runResearchStep(step, state, report)
+    case "rewrite":
+      return runRewrite(step, state)
+    case "answer":
+      return runAnswer(step, state, isFinalAnswer, report)
+    case "postprocess":
+      return runPostprocess(step, state)
+  }
+}
+
+function summarizeUsage(trace: StepTrace[], durationMs: number): UsageSummary {
+  const usage = sumUsage(trace.map((step) => step.usage))
+  return {
+    promptTokens: usage?.promptTokens ?? 0,
+    outputTokens: usage?.outputTokens ?? 0,
+    totalTokens: usage?.totalTokens ?? 0,
+    costUsd: trace.reduce((total, step) => total + (step.costUsd ?? 0), 0),
+    durationMs,
+  }
+}
+
+function formatRules({ format = "text", schema }: WorkflowInput, catalog: PromptCatalog) {
+  const rules = { text: catalog.formatText, markdown: catalog.formatMarkdown, json: catalog.formatJson }[format]
+  if (format !== "json" || !schema) return rules
+  return interpolate(catalog.formatJsonSchema, { rules, schema: JSON.stringify(schema) })
+}
+
+// The answer language, and whether it is actually known: "auto" falls back to the UI language when the question
+// gives no clear hint, and the prompts then ask for the question's language instead of naming one
+function resolveLanguage(input: WorkflowInput, question: string) {
+  const locale = input.locale ?? DEFAULT_LOCALE
+  if (input.language !== "auto") return { language: input.language ?? locale, detected: true }
+  const detected = detectLanguage(question)
+  return { language: detected ?? locale, detected: !!detected }
+}
+
+// Catalog prompts a run of the workflow can render
+function usedPromptNames(definition: WorkflowDefinition, input: WorkflowInput, detected: boolean): PromptName[] {
+  const names = new Set<string>()
+  const add = (section?: PromptSection) => {
+    if (section && typeof section !== "string" && "prompt" in section) names.add(section.prompt)
+  }
+  for (const step of definition.steps) {
+    if (step.kind === "search") [step.summaryFormat, step.referencesFormat, step.emptyContext].forEach(add)
+    if (step.kind === "research")
+      ["researchPlanSystem", "researchPlanPrompt", "researchFollowUpPrompt"].forEach((name) => names.add(name))
+    if (step.kind === "rewrite" || step.kind === "answer") [step.system, ...(step.prompt ?? [])].forEach(add)
+  }
+  const format = input.format ?? "text"
+  names.add({ text: "formatText", markdown: "formatMarkdown", json: "formatJson" }[format])
+  if (format === "json" && input.schema) names.add("formatJsonSchema")
+  if (format !== "json") names.add("chartsSection")
+  names.add(detected ? "languageName" : "sameLanguage")
+  return Array.from(names).filter(isPromptName)
+}
+
+// The current (possibly edited) prompts of the answer language, and the versions this run will use from them
+function resolvePrompts(definition: WorkflowDefinition, input: WorkflowInput, question: string) {
+  const { language, detected } = resolveLanguage(input, question)
+  const { prompts, versions } = loadPrompts(language)
+  const templates: TemplateRef[] = usedPromptNames(definition, input, detected).map((name) => ({
+    name,
+    locale: language,
+    version: versions[name],
+  }))
+  return { language, detected, catalog: prompts, versions, templates }
+}
+
+// Runs every step of a workflow in order, sharing variables and recording a trace
+async function executeWorkflow(definition: WorkflowDefinition, input: WorkflowInput): Promise<WorkflowResult> {
+  const history = normalizeMessages(input.messages)
+  const current = history[history.length - 1]
+  const question = messageText(current)
+  const { language, detected, catalog, versions, templates } = resolvePrompts(definition, input, question)
+  const labels = getMessages(language).answer
+  const answerLanguage = detected ? catalog.languageName : catalog.sameLanguage
+  const plan = planContext(history.slice(0, -1), question, input.summary)
+  const state: WorkflowState = {
+    input,
+    language,
+    catalog,
+    messages: getMessages(input.locale),
+    history: [...plan.messages, current],
+    storedRewrites: storedRewrites(input.messages, history),
+    files: input.files,
+    tables: [],
+    vars: {
+      question,
+      summary: plan.summary?.text ?? "",
+      formatRules: formatRules(input, catalog),
+      answerLanguage,
+      // charts come back as ```chart blocks, which a JSON answer can't contain
+      chartTypes: (input.format ?? "text") === "json" ? "" : "bar, line, pie",
+    },
+    references: [],
+    uploadedFiles: null,
+    prompts: [],
+    answer: "",
+    text: "",
+    charts: [],
+  }
+  const useTemplates = (names: PromptName[]) =>
+    names.forEach((name) => templates.push({ name, locale: language, version: versions[name] }))
+  const trace: StepTrace[] = []
+  const workflowStartedAt = Date.now()
+
+  // Turns that no longer fit are folded into the session summary first, recorded as a step of its own
+  let summary: ConversationSummary | undefined
+  if (plan.fold.length > 0) {
+    const label = state.messages.progress.summarizing
+    input.onProgress?.({ step: 1, label, message: label })
+    const startedAt = Date.now()
+    const outcome = await summarizeTurns(plan.fold, plan.summary, {
+      route: input.route,
+      prompts: catalog,
+      labels,
+      answerLanguage,
+    })
+    if (outcome) {
+      summary = outcome.summary
+      state.vars.summary = outcome.summary.text
+    }
+    useTemplates([
+      "summarySystem",
+      ...(plan.summary ? ["summaryPreviousSection" as const] : []),
+      "summaryTranscriptSection",
+    ])
+    trace.push({
+      index: 1,
+      kind: "context",
+      label,
+      provider: outcome ? input.route.providerId : undefined,
+      model: outcome?.model,
+      output: preview(state.vars.summary),
+      usage: outcome?.usage,
+      costUsd: outcome?.costUsd,
+      details: { summarized: plan.fold.length, kept: plan.kept, relevant: plan.relevant },
+      durationMs: Date.now() - startedAt,
+    })
+  }
+  if (state.vars.summary) useTemplates(["conversationSummarySection"])
+  state.vars.context = [
+    renderPrompt([{ prompt: "conversationSummarySection", when: "summary" }], state.vars, catalog),
+    formatTranscript(plan.messages, labels),
+  ]
+    .filter(Boolean)
+    .join("\n\n")
+
+  // Readable attachments are indexed, and the final answer gets the excerpts closest to the question
+  const collections = input.collections ?? []
+  if (input.files.length > 0 || hasDocuments(collections)) {
+    const label = state.messages.progress.retrieving
+    input.onProgress?.({ step: trace.length + 1, label, message: label })
+    const startedAt = Date.now()
+    const { chunks, indexed, extracted, tables } = await retrieve(question, collections, input.files)
+    state.files = input.files.filter((file) => !extracted.includes(file))
+    state.tables = tables
+    state.vars.documents = formatExcerpts(chunks, getMessages(language).files)
+    state.vars.tables = formatTables(tables)
+    if (chunks.length > 0) useTemplates(["documentsSection"])
+    if (tables.length > 0) useTemplates(["tablesSection"])
+    const documents = new Set(chunks.map((chunk) => chunk.documentId)).size
+    trace.push({
+      index: trace.length + 1,
+      kind: "retrieve",
+      label,
+      input: preview(question),
+      output: interpolate(state.messages.progress.retrieved, { count: chunks.length, documents }),
+      details: {
+        indexed: indexed.map(({ id, name, chunks }) => ({ id, name, chunks })),
+        chunks: chunks.map(({ id, documentName, section, score }) => ({
+          id,
+          document: documentName,
+          section,
+          score: Math.round(score * 1000) / 1000,
+        })),
+        tables: tables.map(({ documentName, name, rows, columns }) => ({
+          document: documentName,
+          name,
+          rows: rows.length,
+          columns: columns.length,
+        })),
+      },
+      durationMs: Date.now() - startedAt,
+    })
+  }
+
+  const lastAnswerIndex = definition.steps.map((step) => step.kind).lastIndexOf("answer")
+  const offset = trace.length
+  for (const [index, step] of definition.steps.entries()) {
+    console.log(`[${definition.id}] Step ${index + 1}: ${step.label}`)
+    const { label } = localize(step, input.locale ?? DEFAULT_LOCALE)
+    const position = offset + index + 1
+    const report: ProgressReporter = (progress) => input.onProgress?.({ step: position, label, ...progress })
+    report({ message: label })
+    const startedAt = Date.now()
+    const outcome = await runStep(step, state, index === lastAnswerIndex, report)
+    trace.push({ index: position, kind: step.kind, label, ...outcome, durationMs: Date.now() - startedAt })
+  }
+  console.log(`[${definition.id}] Completed:`, { textLength: state.text.length, steps: trace.length })
+  const format = input.format ?? "text"
+  const data = format === "json" ? parseJsonAnswer(state.text) : undefined
+  if (format === "json" && data === undefined) console.warn(`[${definition.id}] Answer is not valid JSON`)
+  return {
+    // JSON answers are re-serialized so code fences or stray prose around the value don't reach the client
+    text: data === undefined ? state.text : JSON.stringify(data, null, 2),
+    trace,
+    prompts: state.prompts,
+    searchResults: state.search,
+    referencesText: state.vars.references,
+    usage: state.result?.usage,
+    usageMetadata: state.result?.raw?.usageMetadata,
+    usageSummary: summarizeUsage(trace, Date.now() - workflowStartedAt),
+    answeredBy: state.result?.answeredBy,
+    format,
+    language,
+    templates,
+    rewrittenPrompt: state.rewrittenPrompt,
+    summary,
+    data,
+    ...(state.charts.length > 0 ? { charts: state.charts } : {}),
+  }
+}
+
+// Answers are cached per workflow, model, question and earlier conversation. Requests with files, or in a session
+// with indexed documents, are never cached, and neither are answers that called tools, whose results (the time, a web
+// search) go stale; a hit replays the whole text as a single delta so streaming clients behave the same.
+export async function runWorkflow(definition: WorkflowDefinition, input: WorkflowInput): Promise<WorkflowResult> {
+  const startedAt = Date.now()
+  if (input.files.length > 0 || input.cache === false || hasDocuments(input.collections ?? [])) {
+    return executeWorkflow(definition, input)
+  }
+  const history = normalizeMessages(input.messages)
+  const question = messageText(history[history.length - 1])
+  const keyParts = {
+    workflow: definition.id,
+    provider: input.route.providerId,
+    model: input.route.model,
+    searchProvider: input.searchProvider ?? null,
+    format: input.format ?? "text",
+    schema: input.schema ?? null,
+    // the trace labels follow the UI language, the answer its own
+    locale: input.locale ?? DEFAULT_LOCALE,
+    language: input.language ?? null,
+    question: normalizeQuestion(question),
+    context: buildConversationContext(input.messages),
+    summary: input.summary?.text ?? null,
+    // editing a prompt must not serve answers written with the old text
+    templates: resolvePrompts(definition, input, question).templates,
+  }
+  const { value, cached } = await withCache(
+    "answer",
+    keyParts,
+    async () => {
+      const result = await executeWorkflow(definition, input)
+      // the raw provider payloads are only useful for the request that produced them
+      const { searchResults } = result
+      return {
+        ...result,
+        searchResults: searchResults && { answer: searchResults.answer, results: searchResults.results },
+      }
+    },
+    (result) => !result.trace.some((step) => step.details?.toolCalls),
+  )
+  if (cached) {
+    console.log(`[${definition.id}] Served from cache`)
+    input.onDelta?.(value.text)
+    // the stored trace keeps what the original request spent; this one only took the lookup
+    return { ...value, cached, usageSummary: summarizeUsage([], Date.now() - startedAt) }
+  }
+  return { ...value, cached }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { getMessages } from "@/lib/i18n"
+import { formatExcerpts, stripReferenceSection, validateCitations } from "./format"
+
+describe("stripReferenceSection", () => {
+  it("drops the section under a heading of any locale", () => {
+    expect(stripReferenceSection("Trả lời.\n\nNguồn tham khảo:\n1. a.com")).toBe("Trả lời.")
+    expect(stripReferenceSection("Answer.\n\n## References\n1. a.com")).toBe("Answer.")
+    expect(stripReferenceSection("Answer.\n\n**References:**\n1. a.com")).toBe("Answer.")
+    expect(stripReferenceSection("Answer.\r\n\r\n**NGUỒN THAM KHẢO**:\r\n1. a.com")).toBe("Answer.")
+  })
+
+  it("keeps sentences that only start with a heading word", () => {
+    const text = "References to the 2019 report show growth.\n\nRevenue rose 12%."
+    expect(stripReferenceSection(text)).toBe(text)
+    expect(stripReferenceSection("## References and further reading\nBooks.")).toBe(
+      "## References and further reading\nBooks.",
+    )
+  })
+})
+
+describe("validateCitations", () => {
+  it("normalizes markers and drops numbers without a reference", () => {
+    expect(validateCitations("Doanh thu tăng [1, 2] và [2-3](https://a.com).", 3)).toEqual({
+      text: "Doanh thu tăng [1][2] và [2][3].",
+      cited: [1, 2, 3],
+      invalid: [],
+    })
+    expect(validateCitations("Growth [1, 7].", 3)).toEqual({ text: "Growth [1].", cited: [1], invalid: [7] })
+  })
+
+  it("leaves bracketed numbers that match no reference as text", () => {
+    const text = "The [2024] report indexes a[0] and [7]."
+    expect(validateCitations(text, 3)).toEqual({ text, cited: [], invalid: [] })
+  })
+})
+
+describe("formatExcerpts", () => {
+  const chunk = { documentId: "3f9a1c2b", documentName: "plan.pdf", position: 4, text: "Budget: 12%", score: 0.5 }
+
+  it("labels PDF pages in the language it is given", () => {
+    const excerpts = [{ ...chunk, id: "3f9a1c2b-4", page: 3 }]
+    expect(formatExcerpts(excerpts, getMessages("en").files)).toBe("[3f9a1c2b-4] plan.pdf › Page 3\nBudget: 12%")
+    expect(formatExcerpts(excerpts, getMessages("vi").files)).toBe("[3f9a1c2b-4] plan.pdf › Trang 3\nBudget: 12%")
+  })
+
+  it("keeps the titles of other sections", () => {
+    const excerpts = [{ ...chunk, id: "3f9a1c2b-4", documentName: "report.docx", section: "Budget" }]
+    expect(formatExcerpts(excerpts, getMessages("en").files)).toBe("[3f9a1c2b-4] report.docx › Budget\nBudget: 12%")
+  })
+})
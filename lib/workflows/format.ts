@@ -0,0 +1,259 @@
+import { getMessages, interpolate, LOCALES, type Messages } from "@/lib/i18n"
+import type { SearchReference } from "@/lib/providers"
+import { describeTable } from "@/lib/file-utils"
+import type { DocumentTable, RetrievedChunk } from "@/lib/retrieval/types"
+import { tableLabel } from "@/lib/tools/table-query"
+import type { ChartSpec, PromptSection, PromptTemplate } from "./types"
+
+export const MAX_REFERENCES = 5
+
+type AnswerLabels = Messages["answer"]
+
+function sectionText(section: PromptSection, prompts: Record<string, string>) {
+  if (typeof section === "string") return section
+  if ("text" in section) return section.text
+  if (!(section.prompt in prompts)) console.warn("[workflow] Unknown prompt:", section.prompt)
+  return prompts[section.prompt] ?? ""
+}
+
+// Prompt references are resolved against `prompts` before variables are filled, so a named prompt can use
+// variables but a variable's value is never expanded again
+export function renderPrompt(
+  template: PromptTemplate,
+  vars: Record<string, string>,
+  prompts: Record<string, string> = {},
+) {
+  const fill = (text: string) => text.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? vars[name] : match))
+  return template
+    .filter((section) => {
+      if (typeof section === "string" || !("when" in section || "unless" in section)) return true
+      if (section.when && !vars[section.when]) return false
+      if (section.unless && vars[section.unless]) return false
+      return true
+    })
+    .map((section) => fill(sectionText(section, prompts)))
+    .join("\n\n")
+}
+
+// Text parts only; images and files would otherwise end up in prompts as base64 JSON
+function messageContentText(content: unknown) {
+  if (typeof content === "string") return content
+  if (!Array.isArray(content)) return ""
+  return content
+    .map((part) => (typeof part?.text === "string" ? part.text : ""))
+    .filter(Boolean)
+    .join("\n")
+}
+
+// "Người dùng: ..." / "Trợ lý: ..." transcript of the given messages
+export function formatTranscript(messages: any[], labels: AnswerLabels = getMessages().answer) {
+  return messages
+    .map((msg: any) => {
+      const roleLabel = msg.role === "user" ? labels.user : labels.assistant
+      return `${roleLabel}: ${messageContentText(msg.content)}`
+    })
+    .join("\n")
+}
+
+// Transcript of every message before the current question
+export function buildConversationContext(messages: any[], labels: AnswerLabels = getMessages().answer) {
+  if (messages.length <= 1) return ""
+  return formatTranscript(messages.slice(0, -1), labels)
+}
+
+// "[3f9a1c2b-4] report.docx › Budget" followed by the chunk, for each retrieved excerpt; PDF pages are labelled in
+// the prompt's language ("plan.pdf › Page 3")
+export function formatExcerpts(chunks: RetrievedChunk[], labels: Messages["files"] = getMessages().files) {
+  return chunks
+    .map((chunk) => {
+      const section = chunk.section ?? (chunk.page ? interpolate(labels.page, { page: chunk.page }) : undefined)
+      return `[${chunk.id}] ${[chunk.documentName, section].filter(Boolean).join(" › ")}\n${chunk.text}`
+    })
+    .join("\n\n")
+}
+
+// Each table's columns with their types and statistics over all rows, under the name table_query takes
+export function formatTables(tables: DocumentTable[]) {
+  return tables.map((table) => describeTable({ ...table, name: tableLabel(table) })).join("\n\n")
+}
+
+export function formatReferences(results: SearchReference[], labels: AnswerLabels = getMessages().answer) {
+  return results
+    .map((result: any, index: number) => {
+      const rawUrl = typeof result.url === "string" ? result.url.trim() : ""
+      const url = rawUrl || labels.noUrl
+      let title =
+        (typeof result.title === "string" && result.title.trim()) ||
+        (typeof result.source === "string" && result.source.trim()) ||
+        ""
+      if (!title && rawUrl) {
+        try {
+          const hostname = new URL(rawUrl).hostname.replace(/^www\./, "")
+          title = hostname || title
+        } catch (error) {
+          // ignore invalid URL
+        }
+      }
+      if (!title) {
+        title = interpolate(labels.source, { n: index + 1 })
+      }
+      const content = result.content || ""
+      return `${index + 1}. ${title} - ${url}\n${content}`
+    })
+    .join("\n")
+}
+
+// Clean up any remaining markdown characters
+export function stripMarkdown(text: string) {
+  return text
+    .replace(/\*\*(.*?)\*\*/g, "$1") // Remove bold
+    .replace(/\*(.*?)\*/g, "$1") // Remove italic
+    .replace(/`(.*?)`/g, "$1") // Remove inline code
+    .replace(/^#+\s+/gm, "") // Remove headings
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1") // Remove links but keep text
+    .replace(/^[-*+]\s+/gm, "") // Remove list markers
+    .replace(/\n{3,}/g, "\n\n") // Normalize multiple newlines
+    .trim()
+}
+
+const simplify = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+
+// Headings of every locale: the model doesn't always answer in the language it was asked to
+const REFERENCE_HEADINGS = LOCALES.map((locale) => simplify(getMessages(locale).answer.referencesHeading))
+
+// "References", "## References", "**References:**" or "**References**:" on a line of its own
+function headingText(line: string) {
+  return simplify(line)
+    .replace(/^#{1,6}\s+/, "")
+    .replace(/:$/, "")
+    .replace(/^(\*\*|__)(.*)\1$/, "$2")
+    .replace(/:$/, "")
+    .trim()
+}
+
+export function stripReferenceSection(text: string) {
+  if (!text) return text
+  const normalized = text.replace(/\r\n/g, "\n")
+  const lines = normalized.split("\n")
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (REFERENCE_HEADINGS.includes(headingText(lines[i]))) {
+      return lines.slice(0, i).join("\n").trim()
+    }
+  }
+  return normalized.trim()
+}
+
+// A citation marker with one or more source numbers: [1], [1, 2], [1-3]; a trailing markdown link target
+// ([1](https://...)) is swallowed so it doesn't survive as a bare number after stripMarkdown
+const CITATION_MARKER = /( *)\[(\d+(?:\s*[,\u2013-]\s*\d+)*)\](\([^)\s]*\))?/g
+const MAX_CITATION_RANGE = 20
+
+function citationNumbers(group: string) {
+  return group.split(",").flatMap((part) => {
+    const [start, end] = part.split(/[\u2013-]/).map((n) => parseInt(n.trim(), 10))
+    if (end === undefined || end < start || end - start > MAX_CITATION_RANGE) return [start]
+    return Array.from({ length: end - start + 1 }, (_, i) => start + i)
+  })
+}
+
+// Rewrites every marker that points at one of the `count` references as [n][m], dropping the numbers in it that
+// don't. A marker without any such number ([2024], a[0]) is not a citation and stays as it is.
+export function validateCitations(text: string, count: number) {
+  const cited = new Set<number>()
+  const invalid = new Set<number>()
+  const cleaned = text.replace(CITATION_MARKER, (match, space: string, group: string) => {
+    const numbers = Array.from(new Set(citationNumbers(group)))
+    const valid = numbers.filter((n) => n >= 1 && n <= count)
+    if (valid.length === 0) return match
+    numbers.filter((n) => !valid.includes(n)).forEach((n) => invalid.add(n))
+    valid.forEach((n) => cited.add(n))
+    return space + valid.map((n) => `[${n}]`).join("")
+  })
+  return {
+    text: cleaned,
+    cited: Array.from(cited).sort((a, b) => a - b),
+    invalid: Array.from(invalid).sort((a, b) => a - b),
+  }
+}
+
+// Models sometimes wrap JSON in a code fence or a sentence even when asked not to; returns undefined when no
+// valid JSON value can be found
+export function parseJsonAnswer(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i)
+  const candidates = [text.trim(), fenced?.[1]?.trim(), text.match(/[[{][\s\S]*[\]}]/)?.[0]]
+  for (const candidate of candidates) {
+    if (!candidate) continue
+    try {
+      return JSON.parse(candidate)
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined
+}
+
+const CHART_TYPES = ["bar", "line", "pie"]
+const MAX_CHARTS = 4
+const MAX_CHART_POINTS = 200
+const CHART_BLOCK = /```chart[^\S\n]*\n([\s\S]*?)```/g
+
+// Checks a chart block's JSON. Without `series`, every numeric column other than `xKey` becomes one.
+function toChartSpec(value: any): ChartSpec | null {
+  if (!value || !CHART_TYPES.includes(value.type) || typeof value.xKey !== "string") return null
+  if (!Array.isArray(value.data) || value.data.length === 0) return null
+  const data: ChartSpec["data"] = value.data
+    .slice(0, MAX_CHART_POINTS)
+    .filter((row: unknown) => row && typeof row === "object" && !Array.isArray(row))
+    .map((row: Record<string, unknown>) =>
+      Object.fromEntries(
+        Object.entries(row).map(([key, cell]) => [
+          key,
+          typeof cell === "number" || typeof cell === "string" ? cell : cell == null ? null : String(cell),
+        ]),
+      ),
+    )
+  const declared = Array.isArray(value.series)
+    ? value.series
+        .map((series: any) => (typeof series === "string" ? { key: series } : series))
+        .filter((series: any) => typeof series?.key === "string")
+        .map(({ key, label }: any) => ({ key, ...(typeof label === "string" ? { label } : {}) }))
+    : Object.keys(data[0] ?? {})
+        .filter((key) => key !== value.xKey && data.some((row) => typeof row[key] === "number"))
+        .map((key) => ({ key }))
+  if (data.length === 0 || declared.length === 0) return null
+  return {
+    type: value.type,
+    ...(typeof value.title === "string" && value.title ? { title: value.title } : {}),
+    xKey: value.xKey,
+    series: declared,
+    data,
+  }
+}
+
+// Takes the ```chart blocks out of an answer. Blocks that aren't a valid chart are dropped as well, so their JSON
+// doesn't end up in the text.
+export function extractCharts(text: string) {
+  const charts: ChartSpec[] = []
+  let invalid = 0
+  const rest = text.replace(CHART_BLOCK, (_block, json: string) => {
+    let chart: ChartSpec | null = null
+    try {
+      chart = toChartSpec(JSON.parse(json))
+    } catch {
+      // not JSON
+    }
+    if (chart && charts.length < MAX_CHARTS) charts.push(chart)
+    else invalid++
+    return ""
+  })
+  return { text: charts.length > 0 || invalid > 0 ? rest.replace(/\n{3,}/g, "\n\n").trim() : text, charts, invalid }
+}
+
+export function preview(text: string, length = 200) {
+  return text.substring(0, length) + (text.length > length ? "..." : "")
+}
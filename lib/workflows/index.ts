@@ -0,0 +1,3 @@
+export { runWorkflow, type WorkflowInput } from "./executor"
+export { getWorkflow, listWorkflows, localize, registerWorkflow } from "./registry"
+export type * from "./types"
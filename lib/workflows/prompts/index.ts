@@ -0,0 +1,19 @@
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n"
+import { en } from "./en"
+import { vi } from "./vi"
+
+// Named prompt texts, one catalog per locale. Workflow definitions refer to them as `{ prompt: "<name>" }` so
+// the same definition answers in whichever language the request asks for.
+
+export type PromptCatalog = typeof vi
+export type PromptName = keyof PromptCatalog
+
+const CATALOGS: Record<Locale, PromptCatalog> = { vi, en }
+
+export function getPrompts(locale: Locale = DEFAULT_LOCALE): PromptCatalog {
+  return CATALOGS[locale] ?? CATALOGS[DEFAULT_LOCALE]
+}
+
+export function isPromptName(name: string): name is PromptName {
+  return Object.prototype.hasOwnProperty.call(vi, name)
+}
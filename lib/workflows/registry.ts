@@ -0,0 +1,63 @@
+import { readFileSync } from "node:fs"
+import type { Locale } from "@/lib/i18n"
+import { BUILTIN_WORKFLOWS } from "./definitions"
+import type { Translations, WorkflowDefinition } from "./types"
+
+const STEP_KINDS = ["search", "research", "rewrite", "answer", "postprocess"]
+
+const workflows = new Map<string, WorkflowDefinition>()
+let configLoaded = false
+
+export function registerWorkflow(definition: WorkflowDefinition) {
+  workflows.set(definition.id, definition)
+}
+
+function isValidDefinition(value: any): value is WorkflowDefinition {
+  return (
+    typeof value?.id === "string" &&
+    typeof value?.label === "string" &&
+    Array.isArray(value?.steps) &&
+    value.steps.length > 0 &&
+    value.steps.every((step: any) => STEP_KINDS.includes(step?.kind) && typeof step?.label === "string")
+  )
+}
+
+// Extra workflows can be declared in a JSON file (an array of definitions) pointed to by WORKFLOWS_CONFIG
+function loadConfiguredWorkflows() {
+  if (configLoaded) return
+  configLoaded = true
+  const path = process.env.WORKFLOWS_CONFIG
+  if (!path) return
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8"))
+    for (const definition of Array.isArray(parsed) ? parsed : []) {
+      if (isValidDefinition(definition)) {
+        registerWorkflow(definition)
+      } else {
+        console.warn("[workflows] Ignoring invalid workflow definition:", definition?.id ?? definition)
+      }
+    }
+  } catch (error) {
+    console.error(`[workflows] Failed to load ${path}:`, error)
+  }
+}
+
+BUILTIN_WORKFLOWS.forEach(registerWorkflow)
+
+export function getWorkflow(id: string) {
+  loadConfiguredWorkflows()
+  return workflows.get(id)
+}
+
+export function listWorkflows() {
+  loadConfiguredWorkflows()
+  return Array.from(workflows.values())
+}
+
+// Label and description in `locale`, falling back to the default ones for anything not translated
+export function localize<T extends { label: string; description?: string; i18n?: Translations }>(
+  item: T,
+  locale: Locale,
+): T {
+  return { ...item, ...item.i18n?.[locale] }
+}
@@ -0,0 +1,239 @@
+import {
+  estimateCost,
+  getProvider,
+  searchWithFallback,
+  sumUsage,
+  type Provider,
+  type SearchReference,
+  type TokenUsage,
+} from "@/lib/providers"
+import { interpolate, type Messages } from "@/lib/i18n"
+import { fetchPublic } from "@/lib/public-fetch"
+import { renderPrompt } from "./format"
+import type { PromptCatalog } from "./prompts"
+import type { ResearchStep, WorkflowProgress } from "./types"
+
+const DEFAULT_ROUNDS = 2
+const DEFAULT_QUERIES_PER_ROUND = 3
+const DEFAULT_MAX_SOURCES = 8
+const READ_TIMEOUT_MS = 8000
+const MAX_SOURCE_CHARS = 4000
+
+export type ResearchSource = SearchReference & {
+  // page text when the source could be read, otherwise the search snippet
+  excerpt: string
+  query: string
+}
+
+export type ResearchOutcome = {
+  queries: string[]
+  summaries: string[]
+  sources: ResearchSource[]
+  // planner and search calls together
+  usage?: TokenUsage
+  costUsd: number
+}
+
+type ResearchContext = {
+  question: string
+  // model picked in the UI, used for planning when the step has no planner
+  route: { providerId: string; model: string }
+  searchProviderId: string
+  // planner prompts in the answer language, progress messages in the UI language
+  prompts: PromptCatalog
+  messages: Messages["progress"]
+  report: (progress: Omit<WorkflowProgress, "step" | "label">) => void
+}
+
+// Pulls the first JSON array out of a model reply; models like to wrap it in prose or code fences
+export function parseQueryList(text: string) {
+  const match = text.match(/\[[\s\S]*\]/)
+  if (!match) return []
+  try {
+    const parsed = JSON.parse(match[0])
+    return Array.isArray(parsed) ? parsed.filter((q): q is string => typeof q === "string" && !!q.trim()) : []
+  } catch {
+    return []
+  }
+}
+
+// Same page under a different scheme, host prefix, fragment or tracking parameters counts once
+export function normalizeUrl(url: string) {
+  try {
+    const parsed = new URL(url.trim())
+    parsed.hash = ""
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (key.startsWith("utm_") || key === "ref" || key === "fbclid" || key === "gclid") {
+        parsed.searchParams.delete(key)
+      }
+    }
+    const host = parsed.hostname.replace(/^www\./, "").toLowerCase()
+    const path = parsed.pathname.replace(/\/+$/, "")
+    return `${host}${path}${parsed.search}`
+  } catch {
+    return url.trim().toLowerCase()
+  }
+}
+
+function htmlToText(html: string) {
+  return html
+    .replace(/<(script|style|noscript|svg|nav|footer|header)[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+// Search results can point anywhere, so sources on private or loopback addresses are not read
+async function readSource(url: string) {
+  try {
+    const response = await fetchPublic(url, {
+      headers: { "User-Agent": "Mozilla/5.0 (compatible; ResearchBot/1.0)" },
+      signal: AbortSignal.timeout(READ_TIMEOUT_MS),
+    })
+    const contentType = response.headers.get("content-type") ?? ""
+    if (!response.ok || !/text\/(html|plain)/.test(contentType)) return ""
+    const body = await response.text()
+    const text = contentType.includes("html") ? htmlToText(body) : body.trim()
+    return text.substring(0, MAX_SOURCE_CHARS)
+  } catch (error) {
+    console.warn("[research] Could not read source:", url, error instanceof Error ? error.message : error)
+    return ""
+  }
+}
+
+// Providers with an extract API (Tavily) read pages better than a plain fetch; fall back to fetching ourselves
+async function readSources(provider: Provider, urls: string[]) {
+  if (provider.extract) {
+    try {
+      const pages = await provider.extract(urls)
+      const byUrl = new Map(pages.map((page) => [page.url, page.content.substring(0, MAX_SOURCE_CHARS)]))
+      return urls.map((url) => byUrl.get(url) ?? "")
+    } catch (error) {
+      console.warn("[research] Extract failed, fetching sources directly:", error)
+    }
+  }
+  return Promise.all(urls.map(readSource))
+}
+
+async function planQueries(planner: Provider, model: string, system: string, prompt: string, outcome: ResearchOutcome) {
+  try {
+    const result = await planner.chat!({
+      model,
+      system,
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0.3,
+      maxTokens: 400,
+    })
+    outcome.usage = sumUsage([outcome.usage, result.usage])
+    outcome.costUsd += estimateCost(model, result.usage) ?? 0
+    return parseQueryList(result.text)
+  } catch (error) {
+    console.error("[research] Query planning failed:", error)
+    return []
+  }
+}
+
+export async function runResearch(step: ResearchStep, context: ResearchContext): Promise<ResearchOutcome> {
+  const rounds = Math.max(1, step.rounds ?? DEFAULT_ROUNDS)
+  const perRound = Math.max(1, step.queriesPerRound ?? DEFAULT_QUERIES_PER_ROUND)
+  const maxSources = Math.max(1, step.maxSources ?? DEFAULT_MAX_SOURCES)
+  const searchProvider = getProvider(context.searchProviderId, "search")
+  const planner = getProvider(step.planner?.provider ?? context.route.providerId, "chat")
+  const plannerModel = step.planner?.model ?? context.route.model
+  const { prompts, messages } = context
+
+  const outcome: ResearchOutcome = { queries: [], summaries: [], sources: [], costUsd: 0 }
+  const seenUrls = new Set<string>()
+  const seenQueries = new Set<string>()
+
+  context.report({ message: messages.planning })
+  let queries = await planQueries(
+    planner,
+    plannerModel,
+    prompts.researchPlanSystem,
+    renderPrompt([prompts.researchPlanPrompt], { question: context.question, count: String(perRound) }),
+    outcome,
+  )
+  if (queries.length === 0) queries = [context.question]
+
+  for (let round = 1; round <= rounds && queries.length > 0; round++) {
+    queries = queries.filter((q) => !seenQueries.has(q.toLowerCase())).slice(0, perRound)
+    queries.forEach((q) => seenQueries.add(q.toLowerCase()))
+    if (queries.length === 0) break
+    context.report({ message: interpolate(messages.round, { round, count: queries.length }), round, queries })
+
+    // One failed sub-query shouldn't sink the whole research; only give up if every search fails
+    const settled = await Promise.allSettled(queries.map((query) => searchWithFallback(searchProvider.id, query)))
+    const failures = settled.filter((r): r is PromiseRejectedResult => r.status === "rejected")
+    if (failures.length === settled.length && outcome.sources.length === 0 && outcome.summaries.length === 0) {
+      throw failures[0].reason
+    }
+    settled.forEach((result, index) => {
+      if (result.status !== "fulfilled") {
+        console.error(`[research] Search failed for "${queries[index]}":`, result.reason)
+        return
+      }
+      const { result: search, usage, costUsd } = result.value
+      outcome.usage = sumUsage([outcome.usage, usage])
+      outcome.costUsd += costUsd ?? 0
+      const summary = search.answer?.trim()
+      if (summary) outcome.summaries.push(summary)
+      for (const reference of search.results ?? []) {
+        const key = reference.url ? normalizeUrl(reference.url) : `${reference.title}|${reference.content}`
+        if (seenUrls.has(key)) continue
+        seenUrls.add(key)
+        outcome.sources.push({ ...reference, excerpt: reference.content ?? "", query: queries[index] })
+      }
+    })
+    outcome.queries.push(...queries)
+    context.report({
+      message: interpolate(messages.collected, { count: outcome.sources.length }),
+      round,
+      sources: outcome.sources.length,
+    })
+
+    if (round < rounds) {
+      queries = await planQueries(
+        planner,
+        plannerModel,
+        prompts.researchPlanSystem,
+        renderPrompt([prompts.researchFollowUpPrompt], {
+          question: context.question,
+          count: String(perRound),
+          queries: outcome.queries.map((q) => `- ${q}`).join("\n"),
+          findings: outcome.summaries.map((s) => s.substring(0, 1500)).join("\n\n"),
+        }),
+        outcome,
+      )
+    }
+  }
+
+  outcome.sources = outcome.sources.slice(0, maxSources)
+  if (step.readSources !== false) {
+    const readable = outcome.sources.filter((source) => source.url)
+    context.report({
+      message: interpolate(messages.reading, { count: readable.length }),
+      sources: outcome.sources.length,
+    })
+    const pages = await readSources(
+      searchProvider,
+      readable.map((source) => source.url),
+    )
+    readable.forEach((source, index) => {
+      // keep the snippet when the page is shorter (paywalls, cookie walls, ...)
+      if (pages[index].length > source.excerpt.length) source.excerpt = pages[index]
+    })
+  }
+  console.log("[research] Completed:", {
+    queries: outcome.queries.length,
+    summaries: outcome.summaries.length,
+    sources: outcome.sources.length,
+  })
+  return outcome
+}
@@ -0,0 +1,87 @@
+import {
+  estimateCost,
+  generateWithFallback,
+  sumUsage,
+  type ChatRequest,
+  type FallbackResult,
+  type ProviderMessage,
+  type ToolCall,
+} from "@/lib/providers"
+import { getTool, invokeTool, toolDeclaration, type ToolContext, type ToolInvocation } from "@/lib/tools"
+
+// After this many rounds of calls the model is asked once more without tools, so it has to answer
+const MAX_TOOL_ROUNDS = 5
+
+export type ToolLoopResult = FallbackResult & {
+  invocations: ToolInvocation[]
+  // every round's model call plus paid tool calls (web search)
+  costUsd: number
+}
+
+type ToolLoopOptions = {
+  tools: string[]
+  context: Omit<ToolContext, "charge">
+  onDelta?: (text: string) => void
+  onToolCall?: (call: ToolCall) => void
+}
+
+// Answers like generateWithFallback, but feeds the results of the tools the model calls back to it until it
+// replies without asking for more. Usage covers every round. Only the first round may fall back to another model;
+// later rounds stay with the one that answered it, since their messages hold its tool calls. Every round streams;
+// providers stop forwarding a round's text once it turns to tool calls.
+export async function generateWithTools(
+  route: { providerId: string; model: string },
+  request: Omit<ChatRequest, "model">,
+  options: ToolLoopOptions,
+): Promise<ToolLoopResult> {
+  const declarations = options.tools.flatMap((name) => {
+    const tool = getTool(name)
+    if (!tool) console.warn("[tools] Unknown tool:", name)
+    return tool ? [toolDeclaration(tool)] : []
+  })
+  const invocations: ToolInvocation[] = []
+  const results: FallbackResult[] = []
+  let costUsd = 0
+  const context: ToolContext = { ...options.context, charge: (cost) => (costUsd += cost) }
+  const messages: ProviderMessage[] = [...request.messages]
+  let answering = route
+  for (let round = 0; ; round++) {
+    const tools = round < MAX_TOOL_ROUNDS && declarations.length > 0 ? declarations : undefined
+    const result = await generateWithFallback(answering, { ...request, messages, tools }, options.onDelta, {
+      fallback: round === 0,
+    })
+    answering = result.answeredBy
+    results.push(result)
+    costUsd += (result.usage && estimateCost(result.answeredBy.model, result.usage)) ?? 0
+    if (!tools || !result.toolCalls?.length) {
+      return {
+        ...result,
+        usage: sumUsage(results.map((entry) => entry.usage)),
+        failures: results.flatMap((entry) => entry.failures),
+        invocations,
+        costUsd,
+      }
+    }
+    const calls = result.toolCalls
+    calls.forEach((call) => options.onToolCall?.(call))
+    const outcomes = await Promise.all(calls.map((call) => invokeTool(call, context)))
+    invocations.push(...outcomes)
+    messages.push(
+      {
+        role: "assistant",
+        content: [
+          ...(result.text ? [{ type: "text" as const, text: result.text }] : []),
+          ...calls.map((call) => ({ type: "tool_call" as const, name: call.name, args: call.args })),
+        ],
+      },
+      {
+        role: "user",
+        content: outcomes.map((invocation) => ({
+          type: "tool_result" as const,
+          name: invocation.name,
+          result: invocation.error ? { error: invocation.error } : invocation.output,
+        })),
+      },
+    )
+  }
+}
@@ -0,0 +1,174 @@
+import type { ConversationSummary } from "@/lib/history/types"
+import type { Locale } from "@/lib/i18n"
+import type { SearchResult, TokenUsage } from "@/lib/providers"
+import type { TemplateRef } from "@/lib/templates/types"
+
+// A named text from the prompt catalog of the answer language (see ./prompts), e.g. { prompt: "contentSystem" }
+export type PromptRef = { prompt: string }
+export type PromptText = string | PromptRef
+
+// A prompt is a list of sections joined by blank lines. `{name}` is replaced by the workflow variable of
+// that name; a section with `when` is only kept if that variable is non-empty, `unless` if it is empty.
+export type PromptSection = PromptText | ({ when?: string; unless?: string } & ({ text: string } | PromptRef))
+export type PromptTemplate = PromptSection[]
+
+// Labels shown in other UI locales; the plain `label` and `description` are the default (Vietnamese) ones
+export type Translations = Partial<Record<Locale, { label?: string; description?: string }>>
+
+type StepBase = {
+  label: string
+  i18n?: Translations
+}
+
+// Looks the current question up and exposes {searchSummary}, {references} and {searchContext}
+export type SearchStep = StepBase & {
+  kind: "search"
+  provider: string
+  summaryFormat: PromptText
+  referencesFormat: PromptText
+  emptyContext?: PromptText
+}
+
+// Deep research: plans sub-queries, searches over several rounds, then reads and deduplicates the sources.
+// Exposes the same variables as a search step, with the sources numbered so the answer can cite them as [n].
+export type ResearchStep = StepBase & {
+  kind: "research"
+  provider: string
+  // model that plans the sub-queries; defaults to the model picked in the UI
+  planner?: { provider: string; model: string }
+  rounds?: number
+  queriesPerRound?: number
+  maxSources?: number
+  // fetch each source page instead of relying on the search snippet only
+  readSources?: boolean
+}
+
+// Asks a (usually cheaper) model to turn the question into a better prompt, stored as {rewrite}
+export type RewriteStep = StepBase & {
+  kind: "rewrite"
+  provider: string
+  model: string
+  system: PromptText
+  prompt?: PromptTemplate
+  // "history" sends the whole conversation with the question rewritten in place; earlier user turns reuse
+  // the prompts their requests returned as `rewrittenPrompt`
+  scope?: "question" | "history"
+  // on failure keep the original text instead of failing the workflow
+  optional?: boolean
+  temperature?: number
+  topP?: number
+  maxTokens?: number
+}
+
+// Calls the answering model. Without provider/model it uses the model picked in the UI.
+export type AnswerStep = StepBase & {
+  kind: "answer"
+  provider?: string
+  model?: string
+  system?: PromptText
+  // "history": the conversation as is, "replace-last": conversation with the question replaced by
+  // the rendered prompt, "prompt-only": just the rendered prompt
+  input: "history" | "replace-last" | "prompt-only"
+  prompt?: PromptTemplate
+  attachFiles?: boolean
+  // names of lib/tools functions the model may call before answering
+  tools?: string[]
+  temperature?: number
+  maxTokens?: number
+}
+
+export type PostprocessStep = StepBase & {
+  kind: "postprocess"
+  // only applied to plain text answers
+  stripMarkdown?: boolean
+  references?: "search" | "files"
+}
+
+export type WorkflowStep = SearchStep | ResearchStep | RewriteStep | AnswerStep | PostprocessStep
+
+// How the final answer is written: plain text (the ORS default), Markdown, or a JSON value
+export type OutputFormat = "text" | "markdown" | "json"
+
+// A chart the answer asks the client to draw. Each row of `data` is one category (an x value, or a pie slice)
+// with a value per series; pie charts use the first series.
+export type ChartSpec = {
+  type: "bar" | "line" | "pie"
+  title?: string
+  xKey: string
+  series: Array<{ key: string; label?: string }>
+  data: Array<Record<string, string | number | null>>
+}
+
+export type WorkflowDefinition = {
+  id: string
+  label: string
+  description?: string
+  i18n?: Translations
+  // lucide icon name shown in the workflow picker
+  icon?: string
+  color?: string
+  // not offered in the workflow picker (e.g. modes switched on by a toggle)
+  hidden?: boolean
+  steps: WorkflowStep[]
+}
+
+// Sent to the client while a workflow runs so long steps can show what they are doing
+export type WorkflowProgress = {
+  step: number
+  label: string
+  message: string
+  round?: number
+  queries?: string[]
+  sources?: number
+}
+
+export type StepTrace = {
+  index: number
+  // "context": folding older turns into the conversation summary before the workflow's own steps;
+  // "retrieve": indexing attachments and picking the document excerpts for the answer
+  kind: WorkflowStep["kind"] | "context" | "retrieve"
+  label: string
+  provider?: string
+  model?: string
+  input?: string
+  output?: string
+  durationMs: number
+  // tokens spent by the step's model calls and their estimated price in USD (see lib/providers/pricing)
+  usage?: TokenUsage
+  costUsd?: number
+  details?: Record<string, unknown>
+}
+
+// Totals over every step of one request; cached answers count as free
+export type UsageSummary = TokenUsage & {
+  costUsd: number
+  durationMs: number
+}
+
+export type WorkflowResult = {
+  text: string
+  trace: StepTrace[]
+  prompts: Array<{ input: { system: string; user: string }; output: string }>
+  searchResults?: SearchResult
+  referencesText?: string
+  usage?: TokenUsage
+  usageMetadata?: unknown
+  usageSummary?: UsageSummary
+  // model that produced the final answer after retries and fallbacks
+  answeredBy?: { providerId: string; model: string }
+  // true when the whole answer came from the response cache
+  cached?: boolean
+  format?: OutputFormat
+  // language the answer was written in, after detecting it when the request asked for "auto"
+  language?: Locale
+  // prompt versions the answer was written with
+  templates?: TemplateRef[]
+  // the question as a history-scoped rewrite step rewrote it; clients send it back with the turn
+  rewrittenPrompt?: string
+  // set when this request folded more turns into the session's conversation summary
+  summary?: ConversationSummary
+  // the parsed answer in JSON mode; missing when the model didn't return valid JSON
+  data?: unknown
+  // charts the answer included as ```chart blocks, taken out of `text`
+  charts?: ChartSpec[]
+}
@@ -9,6 +9,8 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // native module, must be required at runtime instead of bundled
+  serverExternalPackages: ["better-sqlite3"],
 }
 
 export default nextConfig
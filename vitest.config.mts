@@ -0,0 +1,8 @@
+import { fileURLToPath } from "node:url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: { alias: [{ find: /^@\//, replacement: fileURLToPath(new URL("./", import.meta.url)) }] },
+  // every test file gets its own in-memory database
+  test: { environment: "node", include: ["lib/**/*.test.ts"], env: { DATABASE_PATH: ":memory:" } },
+})